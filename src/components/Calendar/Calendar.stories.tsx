@@ -4,6 +4,7 @@ import React, { useState } from 'react'
 import styled from 'styled-components'
 
 import { Calendar } from './Calendar'
+import { RangeCalendar } from './RangeCalendar'
 
 export default {
   title: 'Calendar',
@@ -38,6 +39,184 @@ export const All: Story = () => {
           value={value2}
         />
       </dd>
+      <dt>Select a month by setting [granularity] to month</dt>
+      <dd>
+        <Calendar
+          granularity="month"
+          from={new Date(2019, 3, 1)}
+          to={new Date(2021, 2, 31)}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue2(date)
+          }}
+          value={value2}
+        />
+      </dd>
+      <dt>Select a year by setting [granularity] to year</dt>
+      <dd>
+        <Calendar
+          granularity="year"
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>Show years in Japanese era by setting [calendarEra] to japanese</dt>
+      <dd>
+        <Calendar
+          calendarEra="japanese"
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+    </List>
+  )
+}
+
+const scheduledDates = [new Date(2024, 4, 8), new Date(2024, 4, 15), new Date(2024, 4, 20)]
+
+export const Holidays: Story = () => {
+  const [value, setValue] = useState(new Date(2024, 4, 1))
+  return (
+    <List>
+      <dt>Disable weekends by [isDateDisabled]</dt>
+      <dd>
+        <Calendar
+          isDateDisabled={(date) => date.getDay() === 0 || date.getDay() === 6}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>Show Japanese national holidays and company holidays</dt>
+      <dd>
+        <Calendar
+          showJapaneseHolidays
+          holidays={[
+            { date: new Date(2024, 4, 1), name: '創立記念日' },
+            { date: new Date(2024, 4, 2), name: '一斉休暇' },
+          ]}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>Show scheduled events by [renderDay]</dt>
+      <dd>
+        <Calendar
+          renderDay={(date, day) => (
+            <DayWithEvent>
+              {day}
+              {scheduledDates.some((d) => d.getTime() === date.getTime()) && <EventDot />}
+            </DayWithEvent>
+          )}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+    </List>
+  )
+}
+
+export const Range: Story = () => {
+  const [range, setRange] = useState<{ start: Date | null; end: Date | null }>({
+    start: new Date(2020, 0, 10),
+    end: new Date(2020, 1, 5),
+  })
+  return (
+    <List>
+      <dt>RangeCalendar</dt>
+      <dd>
+        <RangeCalendar
+          onSelectRange={(e, selected) => {
+            action('selected')(e, selected)
+            setRange(selected)
+          }}
+          value={range}
+        />
+      </dd>
+      <dt>You can set term of selectable date by setting [from] and [to].</dt>
+      <dd>
+        <RangeCalendar
+          from={new Date(2020, 0, 10)}
+          to={new Date(2020, 2, 10)}
+          onSelectRange={action('selected')}
+        />
+      </dd>
+    </List>
+  )
+}
+
+const englishDecorator = {
+  selectYearIconAlt: () => 'Select year',
+  prevMonthIconAlt: () => 'Previous month',
+  nextMonthIconAlt: () => 'Next month',
+  prevYearIconAlt: () => 'Previous year',
+  nextYearIconAlt: () => 'Next year',
+}
+
+export const Locale: Story = () => {
+  const [value, setValue] = useState(new Date(2024, 4, 1))
+  return (
+    <List>
+      <dt>Start the week on Monday by [weekStartsOn]</dt>
+      <dd>
+        <Calendar
+          weekStartsOn={1}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>Show day names and headings in English by [locale]</dt>
+      <dd>
+        <Calendar
+          locale="en-US"
+          weekStartsOn={1}
+          decorator={englishDecorator}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>Select month in English</dt>
+      <dd>
+        <Calendar
+          locale="en-US"
+          granularity="month"
+          decorator={englishDecorator}
+          onSelectDate={(e, date) => {
+            action('selected')(e, date)
+            setValue(date)
+          }}
+          value={value}
+        />
+      </dd>
+      <dt>RangeCalendar in English</dt>
+      <dd>
+        <RangeCalendar
+          locale="en-US"
+          weekStartsOn={1}
+          decorator={englishDecorator}
+          onSelectRange={action('selected')}
+        />
+      </dd>
     </List>
   )
 }
@@ -48,3 +227,16 @@ const List = styled.dl`
     margin: 10px 0 40px;
   }
 `
+const DayWithEvent = styled.span`
+  position: relative;
+`
+const EventDot = styled.span`
+  position: absolute;
+  bottom: -2px;
+  left: 50%;
+  width: 4px;
+  height: 4px;
+  border-radius: 50%;
+  background-color: #0077c7;
+  transform: translateX(-50%);
+`
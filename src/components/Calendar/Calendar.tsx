@@ -4,13 +4,24 @@ import styled, { css } from 'styled-components'
 
 import { useId } from '../../hooks/useId'
 import { Theme, useTheme } from '../../hooks/useTheme'
+import { CalendarEra } from '../../libs/japaneseEra'
 import { Button } from '../Button'
 import { FaCaretDownIcon, FaCaretUpIcon, FaChevronLeftIcon, FaChevronRightIcon } from '../Icon'
 
 import { CalendarTable } from './CalendarTable'
+import { MonthPicker } from './MonthPicker'
 import { YearPicker } from './YearPicker'
-import { getFromDate, getToDate, isBetween, minDate } from './calendarHelper'
+import {
+  formatCalendarYear,
+  formatCalendarYearMonth,
+  getFromDate,
+  getToDate,
+  isBetween,
+  minDate,
+} from './calendarHelper'
+import { CalendarDecorator, DayProps, Granularity, LocaleProps } from './types'
 import { useClassNames } from './useClassNames'
+import { useFocusedDate } from './useFocusedDate'
 
 type Props = {
   /** 選択可能な開始日 */
@@ -21,17 +32,55 @@ type Props = {
   onSelectDate: (e: MouseEvent, date: Date) => void
   /** 選択された日付 */
   value?: Date
-}
+  /** 選択する単位。`month` では月を、`year` では年を選択し、その期間の初日を選択した日付とする */
+  granularity?: Granularity
+  /** 年の表記。`japanese` の場合は、見出しや年の一覧を「令和6年」のように和暦で表記する */
+  calendarEra?: CalendarEra
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: CalendarDecorator
+} & DayProps &
+  LocaleProps
 type ElementProps = Omit<HTMLAttributes<HTMLElement>, keyof Props>
 
+const SELECT_YEAR_ICON_ALT = '年を選択する'
+const PREV_MONTH_ICON_ALT = '前の月へ'
+const NEXT_MONTH_ICON_ALT = '次の月へ'
+const PREV_YEAR_ICON_ALT = '前の年へ'
+const NEXT_YEAR_ICON_ALT = '次の年へ'
+
+const executeDecorator = (defaultText: string, decorator: ((text: string) => string) | undefined) =>
+  decorator ? decorator(defaultText) : defaultText
+
 export const Calendar = forwardRef<HTMLElement, Props & ElementProps>(
-  ({ from = minDate, to, onSelectDate, value, ...props }, ref) => {
+  (
+    {
+      from = minDate,
+      to,
+      onSelectDate,
+      value,
+      granularity = 'day',
+      calendarEra = 'gregorian',
+      isDateDisabled,
+      showJapaneseHolidays,
+      holidays,
+      renderDay,
+      locale,
+      weekStartsOn,
+      decorator,
+      ...props
+    },
+    ref,
+  ) => {
     const themes = useTheme()
     const classNames = useClassNames()
     const now = dayjs().startOf('date')
     const fromDay = dayjs(getFromDate(from))
     const toDay = dayjs(getToDate(to))
-    const isValidValue = value && isBetween(value, fromDay.toDate(), toDay.toDate())
+    const isValidValue =
+      value &&
+      (granularity === 'day'
+        ? isBetween(value, fromDay.toDate(), toDay.toDate())
+        : !dayjs(value).isBefore(fromDay, granularity) && !dayjs(value).isAfter(toDay, granularity))
 
     const [currentMonth, setCurrentMonth] = useState(isValidValue ? dayjs(value) : now)
     const [isSelectingYear, setIsSelectingYear] = useState(false)
@@ -44,8 +93,30 @@ export const Calendar = forwardRef<HTMLElement, Props & ElementProps>(
       }
     }, [value, isValidValue])
 
-    const prevMonth = currentMonth.subtract(1, 'month')
-    const nextMonth = currentMonth.add(1, 'month')
+    const { focusedDate, setFocusedDate, tabbableDate, handleKeyDown } = useFocusedDate({
+      from: fromDay.toDate(),
+      to: toDay.toDate(),
+      isDateDisabled,
+      firstMonth: currentMonth,
+      lastMonth: currentMonth,
+      selected: isValidValue ? value : null,
+      weekStartsOn,
+      onMoveMonth: (date) => setCurrentMonth(dayjs(date)),
+    })
+
+    // 月を選択する場合は、前後の年へ移動する
+    const moveUnit = granularity === 'month' ? 'year' : 'month'
+    const prevMonth = currentMonth.subtract(1, moveUnit)
+    const nextMonth = currentMonth.add(1, moveUnit)
+    const selectYearIconAlt = executeDecorator(SELECT_YEAR_ICON_ALT, decorator?.selectYearIconAlt)
+    const prevIconAlt =
+      moveUnit === 'year'
+        ? executeDecorator(PREV_YEAR_ICON_ALT, decorator?.prevYearIconAlt)
+        : executeDecorator(PREV_MONTH_ICON_ALT, decorator?.prevMonthIconAlt)
+    const nextIconAlt =
+      moveUnit === 'year'
+        ? executeDecorator(NEXT_YEAR_ICON_ALT, decorator?.nextYearIconAlt)
+        : executeDecorator(NEXT_MONTH_ICON_ALT, decorator?.nextMonthIconAlt)
 
     return (
       <Container
@@ -56,65 +127,100 @@ export const Calendar = forwardRef<HTMLElement, Props & ElementProps>(
       >
         <Header themes={themes} className={classNames.calendar.header}>
           <YearMonth className={classNames.calendar.yearMonth}>
-            {currentMonth.year()}年{currentMonth.month() + 1}月
+            {granularity === 'day'
+              ? formatCalendarYearMonth(currentMonth.toDate(), locale, calendarEra)
+              : formatCalendarYear(currentMonth.year(), locale, calendarEra)}
           </YearMonth>
-          <Button
-            onClick={(e) => {
-              e.stopPropagation()
-              setIsSelectingYear(!isSelectingYear)
-            }}
-            size="s"
-            square
-            aria-expanded={isSelectingYear}
-            aria-controls={yearPickerId}
-            className={classNames.calendar.selectingYear}
-          >
-            {isSelectingYear ? (
-              <FaCaretUpIcon alt="年を選択する" />
-            ) : (
-              <FaCaretDownIcon alt="年を選択する" />
-            )}
-          </Button>
-          <MonthButtons className={classNames.calendar.monthButtons}>
-            <Button
-              disabled={isSelectingYear || prevMonth.isBefore(fromDay, 'month')}
-              onClick={() => setCurrentMonth(prevMonth)}
-              size="s"
-              square
-              className={classNames.calendar.monthButtonPrev}
-            >
-              <FaChevronLeftIcon alt="前の月へ" />
-            </Button>
-            <Button
-              disabled={isSelectingYear || nextMonth.isAfter(toDay, 'month')}
-              onClick={() => setCurrentMonth(nextMonth)}
-              size="s"
-              square
-              className={classNames.calendar.monthButtonNext}
-            >
-              <FaChevronRightIcon alt="次の月へ" />
-            </Button>
-          </MonthButtons>
+          {granularity !== 'year' && (
+            <>
+              <Button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setIsSelectingYear(!isSelectingYear)
+                }}
+                size="s"
+                square
+                aria-expanded={isSelectingYear}
+                aria-controls={yearPickerId}
+                className={classNames.calendar.selectingYear}
+              >
+                {isSelectingYear ? (
+                  <FaCaretUpIcon alt={selectYearIconAlt} />
+                ) : (
+                  <FaCaretDownIcon alt={selectYearIconAlt} />
+                )}
+              </Button>
+              <MonthButtons className={classNames.calendar.monthButtons}>
+                <Button
+                  disabled={isSelectingYear || prevMonth.isBefore(fromDay, moveUnit)}
+                  onClick={() => setCurrentMonth(prevMonth)}
+                  size="s"
+                  square
+                  className={classNames.calendar.monthButtonPrev}
+                >
+                  <FaChevronLeftIcon alt={prevIconAlt} />
+                </Button>
+                <Button
+                  disabled={isSelectingYear || nextMonth.isAfter(toDay, moveUnit)}
+                  onClick={() => setCurrentMonth(nextMonth)}
+                  size="s"
+                  square
+                  className={classNames.calendar.monthButtonNext}
+                >
+                  <FaChevronRightIcon alt={nextIconAlt} />
+                </Button>
+              </MonthButtons>
+            </>
+          )}
         </Header>
-        <TableLayout>
+        <TableLayout granularity={granularity}>
           <YearPicker
             fromYear={fromDay.year()}
             toYear={toDay.year()}
             selectedYear={value?.getFullYear()}
-            onSelectYear={(year) => {
+            calendarEra={calendarEra}
+            onSelectYear={(year, e) => {
+              if (granularity === 'year') {
+                onSelectDate(e, new Date(year, 0, 1))
+                return
+              }
               setCurrentMonth(currentMonth.year(year))
               setIsSelectingYear(false)
             }}
-            isDisplayed={isSelectingYear}
+            isDisplayed={granularity === 'year' || isSelectingYear}
             id={yearPickerId}
           />
-          <CalendarTable
-            current={currentMonth.toDate()}
-            from={fromDay.toDate()}
-            to={toDay.toDate()}
-            onSelectDate={onSelectDate}
-            selected={isValidValue ? value : null}
-          />
+          {granularity === 'month' && (
+            <MonthPicker
+              year={currentMonth.year()}
+              from={fromDay.toDate()}
+              to={toDay.toDate()}
+              onSelectMonth={onSelectDate}
+              selected={isValidValue ? value : null}
+              locale={locale}
+            />
+          )}
+          {granularity === 'day' && (
+            <CalendarTable
+              current={currentMonth.toDate()}
+              from={fromDay.toDate()}
+              to={toDay.toDate()}
+              onSelectDate={(e, date) => {
+                setFocusedDate(null)
+                onSelectDate(e, date)
+              }}
+              selected={isValidValue ? value : null}
+              tabbableDate={tabbableDate}
+              focusedDate={focusedDate}
+              onKeyDownDate={handleKeyDown}
+              isDateDisabled={isDateDisabled}
+              showJapaneseHolidays={showJapaneseHolidays}
+              holidays={holidays}
+              renderDay={renderDay}
+              locale={locale}
+              weekStartsOn={weekStartsOn}
+            />
+          )}
         </TableLayout>
       </Container>
     )
@@ -154,6 +260,13 @@ const MonthButtons = styled.div`
     margin-left: 8px;
   }
 `
-const TableLayout = styled.div`
+const TableLayout = styled.div<{ granularity: Granularity }>`
   position: relative;
+  ${({ granularity }) =>
+    granularity === 'year' &&
+    css`
+      /* 年の一覧の後ろに表示する要素がないため、日付の一覧と同じくらいの大きさを確保する */
+      width: 17rem;
+      height: 16rem;
+    `}
 `
@@ -1,11 +1,23 @@
 import dayjs from 'dayjs'
-import React, { HTMLAttributes, MouseEvent, VFC } from 'react'
+import { transparentize } from 'polished'
+import React, {
+  HTMLAttributes,
+  KeyboardEvent,
+  MouseEvent,
+  VFC,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react'
 import styled, { css } from 'styled-components'
 
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
 import { Theme, useTheme } from '../../hooks/useTheme'
 import { UnstyledButton } from '../Button'
 
-import { daysInWeek, getMonthArray, isBetween } from './calendarHelper'
+import { getDaysInWeek, getMonthArray, isBetween } from './calendarHelper'
+import { getJapaneseHolidayName } from './japaneseHoliday'
+import { DayProps, LocaleProps } from './types'
 import { useClassNames } from './useClassNames'
 
 type Props = {
@@ -19,15 +31,42 @@ type Props = {
   onSelectDate: (e: MouseEvent, date: Date) => void
   /** 選択された日付 */
   selected?: Date | null
-}
+  /** 期間として強調する開始日 */
+  rangeStart?: Date | null
+  /** 期間として強調する終了日 */
+  rangeEnd?: Date | null
+  /** 日付にマウスカーソルが乗った時、または外れた時に発火するコールバック関数 */
+  onHoverDate?: (date: Date | null) => void
+  /** Tab キーでフォーカスできる日付。指定した場合、それ以外の日付は矢印キーなどで移動してフォーカスする */
+  tabbableDate?: Date | null
+  /** キーボード操作によりフォーカスを移動した日付。変わった時に、その日付にフォーカスする */
+  focusedDate?: Date | null
+  /** 日付のボタンでキーを押した時に発火するコールバック関数 */
+  onKeyDownDate?: (e: KeyboardEvent, date: Date) => void
+} & DayProps &
+  LocaleProps
 type ElementProps = Omit<HTMLAttributes<HTMLTableElement>, keyof Props>
 
+const HOLIDAY_KEY_FORMAT = 'YYYY-MM-DD'
+
 export const CalendarTable: VFC<Props & ElementProps> = ({
   current,
   from,
   to,
   onSelectDate,
   selected,
+  rangeStart,
+  rangeEnd,
+  onHoverDate,
+  tabbableDate,
+  focusedDate,
+  onKeyDownDate,
+  isDateDisabled,
+  showJapaneseHolidays,
+  holidays,
+  renderDay,
+  locale,
+  weekStartsOn = 0,
   ...props
 }) => {
   const themes = useTheme()
@@ -39,16 +78,42 @@ export const CalendarTable: VFC<Props & ElementProps> = ({
   const fromDay = dayjs(from)
   const toDay = dayjs(to)
 
-  const array = getMonthArray(currentDay.toDate())
+  const tabbableButtonRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    // フォーカスを移動した日付がこの月にある場合は、そのボタンにフォーカスする
+    if (focusedDate && tabbableButtonRef.current && currentDay.isSame(focusedDate, 'month')) {
+      tabbableButtonRef.current.focus()
+    }
+    // 月が変わった後にフォーカスできるよう、focusedDate が変わった時だけ実行する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusedDate])
+
+  const array = getMonthArray(currentDay.toDate(), weekStartsOn)
+  const hasRange = !!rangeStart && !!rangeEnd && !dayjs(rangeStart).isAfter(rangeEnd, 'date')
+  const holidayNames = useMemo(() => {
+    const names = new Map<string, string>()
+    holidays?.forEach(({ date, name }) => names.set(dayjs(date).format(HOLIDAY_KEY_FORMAT), name))
+    return names
+  }, [holidays])
+  const getHolidayName = (date: dayjs.Dayjs) =>
+    [
+      showJapaneseHolidays ? getJapaneseHolidayName(date.toDate()) : null,
+      holidayNames.get(date.format(HOLIDAY_KEY_FORMAT)),
+    ]
+      .filter((name) => !!name)
+      .join('、')
+
   return (
     <Table
       {...props}
+      onMouseLeave={onHoverDate && (() => onHoverDate(null))}
       themes={themes}
       className={`${props.className} ${classNames.calendarTable.wrapper}`}
     >
       <thead>
         <tr>
-          {daysInWeek.map((day, i) => (
+          {getDaysInWeek(locale, weekStartsOn).map((day, i) => (
             <th key={i} className={classNames.calendarTable.headCell}>
               {day}
             </th>
@@ -60,32 +125,52 @@ export const CalendarTable: VFC<Props & ElementProps> = ({
           return (
             <tr key={weekIndex}>
               {week.map((date, dateIndex) => {
+                if (!date) {
+                  return <td key={dateIndex} className={classNames.calendarTable.dataCell} />
+                }
+                const day = currentDay.date(date)
                 const isOutRange =
-                  !date ||
-                  !isBetween(currentDay.date(date).toDate(), fromDay.toDate(), toDay.toDate())
+                  !isBetween(day.toDate(), fromDay.toDate(), toDay.toDate()) ||
+                  (!!isDateDisabled && isDateDisabled(day.toDate()))
+                const isRangeEdge =
+                  hasRange && (day.isSame(rangeStart, 'date') || day.isSame(rangeEnd, 'date'))
+                const isInRange =
+                  hasRange && isBetween(day.toDate(), rangeStart as Date, rangeEnd as Date)
                 const isSelectedDate =
-                  !!date && !!selectedDay && currentDay.date(date).isSame(selectedDay, 'date')
+                  (!!selectedDay && day.isSame(selectedDay, 'date')) || isRangeEdge
+                const holidayName = getHolidayName(day)
+                const isTabbable = !!tabbableDate && day.isSame(tabbableDate, 'date')
+                const dateCell = (
+                  <DateCell
+                    themes={themes}
+                    isToday={day.isSame(now, 'date')}
+                    isSelected={isSelectedDate}
+                    isHoliday={!!holidayName}
+                    className={holidayName ? classNames.calendarTable.holiday : undefined}
+                  >
+                    {date}
+                  </DateCell>
+                )
                 return (
-                  <td key={dateIndex} className={classNames.calendarTable.dataCell}>
-                    {date && (
-                      <CellButton
-                        themes={themes}
-                        disabled={isOutRange}
-                        onClick={(e) =>
-                          !isOutRange && onSelectDate(e, currentDay.date(date).toDate())
-                        }
-                        aria-pressed={isSelectedDate}
-                        type="button"
-                      >
-                        <DateCell
-                          themes={themes}
-                          isToday={currentDay.date(date).isSame(now, 'date')}
-                          isSelected={isSelectedDate}
-                        >
-                          {date}
-                        </DateCell>
-                      </CellButton>
-                    )}
+                  <td
+                    key={dateIndex}
+                    className={`${isInRange ? 'inRange' : ''} ${classNames.calendarTable.dataCell}`}
+                  >
+                    <CellButton
+                      themes={themes}
+                      disabled={isOutRange}
+                      onClick={(e) => !isOutRange && onSelectDate(e, day.toDate())}
+                      onMouseEnter={onHoverDate && (() => onHoverDate(day.toDate()))}
+                      onKeyDown={onKeyDownDate && ((e) => onKeyDownDate(e, day.toDate()))}
+                      tabIndex={tabbableDate === undefined || isTabbable ? undefined : -1}
+                      ref={isTabbable ? tabbableButtonRef : undefined}
+                      aria-pressed={isSelectedDate}
+                      title={holidayName || undefined}
+                      type="button"
+                    >
+                      {renderDay ? renderDay(day.toDate(), dateCell) : dateCell}
+                      {holidayName && <VisuallyHiddenText>{holidayName}</VisuallyHiddenText>}
+                    </CellButton>
                   </td>
                 )
               })}
@@ -116,9 +201,17 @@ const Table = styled.table<{ themes: Theme }>(({ themes }) => {
       padding: 0;
       vertical-align: middle;
     }
+    td.inRange {
+      background-color: ${transparentize(0.9, color.MAIN)};
+    }
   `
 })
-const DateCell = styled.span<{ themes: Theme; isToday?: boolean; isSelected?: boolean }>`
+const DateCell = styled.span<{
+  themes: Theme
+  isToday?: boolean
+  isSelected?: boolean
+  isHoliday?: boolean
+}>`
   display: flex;
   align-items: center;
   justify-content: center;
@@ -127,7 +220,12 @@ const DateCell = styled.span<{ themes: Theme; isToday?: boolean; isSelected?: bo
   box-sizing: border-box;
   border-radius: 50%;
   line-height: 0;
-  ${({ themes: { border, color }, isToday, isSelected }) => css`
+  ${({ themes: { border, color }, isToday, isSelected, isHoliday }) => css`
+    ${isHoliday &&
+    css`
+      color: ${color.DANGER};
+    `}
+
     ${isToday &&
     css`
       border: ${border.shorthand};
@@ -151,6 +249,10 @@ const CellButton = styled(UnstyledButton)<{ themes: Theme }>(
     :disabled {
       color: ${color.TEXT_DISABLED};
       cursor: not-allowed;
+
+      ${DateCell} {
+        color: ${color.TEXT_DISABLED};
+      }
     }
     :not(:disabled) {
       &:hover {
@@ -162,3 +264,6 @@ const CellButton = styled(UnstyledButton)<{ themes: Theme }>(
     }
   `,
 )
+const VisuallyHiddenText = styled.span`
+  ${VISUALLY_HIDDEN_STYLE}
+`
@@ -0,0 +1,130 @@
+import dayjs from 'dayjs'
+import React, { HTMLAttributes, MouseEvent, VFC } from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { UnstyledButton } from '../Button'
+
+import { formatCalendarMonth } from './calendarHelper'
+import { useClassNames } from './useClassNames'
+
+type Props = {
+  /** 表示する年 */
+  year: number
+  /** 選択可能な開始日 */
+  from: Date
+  /** 選択可能な終了日 */
+  to: Date
+  /** トリガのセレクトイベントを処理するハンドラ。選択された月の初日が渡される */
+  onSelectMonth: (e: MouseEvent, date: Date) => void
+  /** 選択された日付 */
+  selected?: Date | null
+  /** 月を表示する言語 */
+  locale?: string
+}
+type ElementProps = Omit<HTMLAttributes<HTMLDivElement>, keyof Props>
+
+const months = Array.from({ length: 12 }).map((_, i) => i)
+
+export const MonthPicker: VFC<Props & ElementProps> = ({
+  year,
+  from,
+  to,
+  onSelectMonth,
+  selected,
+  locale,
+  ...props
+}) => {
+  const themes = useTheme()
+  const classNames = useClassNames()
+  const now = dayjs()
+
+  return (
+    <Container
+      {...props}
+      themes={themes}
+      className={`${props.className} ${classNames.monthPicker.wrapper}`}
+    >
+      {months.map((month) => {
+        const date = dayjs(new Date(year, month, 1))
+        const isOutRange = date.isBefore(from, 'month') || date.isAfter(to, 'month')
+        const isSelected = !!selected && date.isSame(selected, 'month')
+        return (
+          <MonthButton
+            key={month}
+            themes={themes}
+            disabled={isOutRange}
+            onClick={(e) => onSelectMonth(e, date.toDate())}
+            aria-pressed={isSelected}
+            type="button"
+            className={classNames.monthPicker.selectMonth}
+          >
+            <MonthWrapper
+              themes={themes}
+              isThisMonth={date.isSame(now, 'month')}
+              isSelected={isSelected}
+            >
+              {formatCalendarMonth(month, locale)}
+            </MonthWrapper>
+          </MonthButton>
+        )
+      })}
+    </Container>
+  )
+}
+
+const Container = styled.div<{ themes: Theme }>`
+  ${({ themes: { spacingByChar } }) => css`
+    display: flex;
+    flex-wrap: wrap;
+    width: 17rem;
+    padding: ${spacingByChar(0.5)} ${spacingByChar(0.25)};
+    box-sizing: border-box;
+  `}
+`
+const MonthWrapper = styled.span<{ themes: Theme; isThisMonth?: boolean; isSelected?: boolean }>(
+  ({ themes, isThisMonth, isSelected }) => {
+    const { border, color, fontSize, leading, spacingByChar } = themes
+    return css`
+      display: inline-block;
+      padding: ${spacingByChar(0.5)} ${spacingByChar(0.75)};
+      border-radius: 2rem;
+      font-size: ${fontSize.M};
+      box-sizing: border-box;
+      line-height: ${leading.NONE};
+      ${isThisMonth &&
+      css`
+        border: ${border.shorthand};
+      `};
+      ${isSelected &&
+      css`
+        color: ${color.TEXT_WHITE} !important;
+        background-color: ${color.MAIN} !important;
+      `}
+    `
+  },
+)
+const MonthButton = styled(UnstyledButton)<{ themes: Theme }>`
+  ${({ themes: { color, leading, spacingByChar } }) => css`
+    width: calc(100% / 3);
+    padding: ${spacingByChar(0.75)} 0;
+    line-height: ${leading.NONE};
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    cursor: pointer;
+
+    :disabled {
+      color: ${color.TEXT_DISABLED};
+      cursor: not-allowed;
+    }
+    :not(:disabled) {
+      &:hover {
+        ${MonthWrapper} {
+          color: ${color.TEXT_BLACK};
+          background-color: ${color.BASE_GREY};
+        }
+      }
+    }
+  `}
+`
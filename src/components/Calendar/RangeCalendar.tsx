@@ -0,0 +1,229 @@
+import dayjs from 'dayjs'
+import React, { HTMLAttributes, MouseEvent, forwardRef, useEffect, useState } from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { Button } from '../Button'
+import { FaChevronLeftIcon, FaChevronRightIcon } from '../Icon'
+
+import { CalendarTable } from './CalendarTable'
+import {
+  formatCalendarYearMonth,
+  getFromDate,
+  getToDate,
+  isBetween,
+  minDate,
+} from './calendarHelper'
+import { CalendarDecorator, DayProps, LocaleProps } from './types'
+import { useClassNames } from './useClassNames'
+import { useFocusedDate } from './useFocusedDate'
+
+type Props = {
+  /** 選択可能な開始日 */
+  from?: Date
+  /** 選択可能な終了日 */
+  to?: Date
+  /** 期間の開始日と終了日を選択した時に発火するコールバック関数 */
+  onSelectRange: (e: MouseEvent, range: { start: Date; end: Date }) => void
+  /** 選択された期間 */
+  value?: { start: Date | null; end: Date | null }
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: Pick<CalendarDecorator, 'prevMonthIconAlt' | 'nextMonthIconAlt'>
+} & DayProps &
+  LocaleProps
+type ElementProps = Omit<HTMLAttributes<HTMLElement>, keyof Props>
+
+const PREV_MONTH_ICON_ALT = '前の月へ'
+const NEXT_MONTH_ICON_ALT = '次の月へ'
+
+const sortDates = (a: Date, b: Date) => (dayjs(a).isAfter(b, 'date') ? [b, a] : [a, b])
+
+export const RangeCalendar = forwardRef<HTMLElement, Props & ElementProps>(
+  (
+    {
+      from = minDate,
+      to,
+      onSelectRange,
+      value,
+      isDateDisabled,
+      showJapaneseHolidays,
+      holidays,
+      renderDay,
+      locale,
+      weekStartsOn,
+      decorator,
+      ...props
+    },
+    ref,
+  ) => {
+    const themes = useTheme()
+    const classNames = useClassNames()
+    const now = dayjs().startOf('date')
+    const fromDay = dayjs(getFromDate(from))
+    const toDay = dayjs(getToDate(to))
+    const isValidStart = !!value?.start && isBetween(value.start, fromDay.toDate(), toDay.toDate())
+
+    const [currentMonth, setCurrentMonth] = useState(
+      isValidStart ? dayjs(value?.start) : now.isAfter(toDay) ? toDay : now,
+    )
+    // 開始日だけを選択した状態。終了日を選択するまでは、マウスカーソルが乗った日付までを期間として表示する
+    const [pendingStart, setPendingStart] = useState<Date | null>(null)
+    const [hoveredDate, setHoveredDate] = useState<Date | null>(null)
+
+    useEffect(() => {
+      if (value?.start && isValidStart) {
+        setCurrentMonth(dayjs(value.start))
+      }
+    }, [value?.start, isValidStart])
+
+    // 2 か月目が選択可能な期間を超えないよう、表示する最初の月を補正する
+    const firstMonth =
+      currentMonth.add(1, 'month').isAfter(toDay, 'month') &&
+      !currentMonth.subtract(1, 'month').isBefore(fromDay, 'month')
+        ? currentMonth.subtract(1, 'month')
+        : currentMonth
+    const secondMonth = firstMonth.add(1, 'month')
+    const prevMonth = firstMonth.subtract(1, 'month')
+    const months = [firstMonth, secondMonth]
+
+    const { focusedDate, setFocusedDate, tabbableDate, handleKeyDown } = useFocusedDate({
+      from: fromDay.toDate(),
+      to: toDay.toDate(),
+      isDateDisabled,
+      firstMonth,
+      lastMonth: secondMonth,
+      selected: pendingStart ?? value?.start,
+      weekStartsOn,
+      // 前の月へ移動する場合は左側に、次の月へ移動する場合は右側に表示する
+      onMoveMonth: (date) =>
+        setCurrentMonth(
+          dayjs(date).isBefore(firstMonth, 'month')
+            ? dayjs(date)
+            : dayjs(date).subtract(1, 'month'),
+        ),
+    })
+
+    // キーボード操作の場合は、フォーカスしている日付までを期間として表示する
+    const [rangeStart, rangeEnd] = pendingStart
+      ? sortDates(pendingStart, hoveredDate ?? focusedDate ?? pendingStart)
+      : [value?.start ?? null, value?.end ?? null]
+
+    const handleSelectDate = (e: MouseEvent, date: Date) => {
+      setFocusedDate(null)
+      if (pendingStart === null) {
+        setPendingStart(date)
+        return
+      }
+      const [start, end] = sortDates(pendingStart, date)
+      setPendingStart(null)
+      onSelectRange(e, { start, end })
+    }
+
+    return (
+      <Container
+        {...props}
+        themes={themes}
+        ref={ref}
+        className={`${props.className} ${classNames.rangeCalendar.wrapper}`}
+      >
+        <Header themes={themes} className={classNames.rangeCalendar.header}>
+          <Button
+            disabled={prevMonth.isBefore(fromDay, 'month')}
+            onClick={() => setCurrentMonth(prevMonth)}
+            size="s"
+            square
+            className={classNames.rangeCalendar.monthButtonPrev}
+          >
+            <FaChevronLeftIcon
+              alt={
+                decorator?.prevMonthIconAlt
+                  ? decorator.prevMonthIconAlt(PREV_MONTH_ICON_ALT)
+                  : PREV_MONTH_ICON_ALT
+              }
+            />
+          </Button>
+          {months.map((month) => (
+            <YearMonth
+              key={month.format('YYYY-MM')}
+              themes={themes}
+              className={classNames.rangeCalendar.yearMonth}
+            >
+              {formatCalendarYearMonth(month.toDate(), locale)}
+            </YearMonth>
+          ))}
+          <Button
+            disabled={secondMonth.add(1, 'month').isAfter(toDay, 'month')}
+            onClick={() => setCurrentMonth(firstMonth.add(1, 'month'))}
+            size="s"
+            square
+            className={classNames.rangeCalendar.monthButtonNext}
+          >
+            <FaChevronRightIcon
+              alt={
+                decorator?.nextMonthIconAlt
+                  ? decorator.nextMonthIconAlt(NEXT_MONTH_ICON_ALT)
+                  : NEXT_MONTH_ICON_ALT
+              }
+            />
+          </Button>
+        </Header>
+        <Months>
+          {months.map((month) => (
+            <CalendarTable
+              key={month.format('YYYY-MM')}
+              current={month.toDate()}
+              from={fromDay.toDate()}
+              to={toDay.toDate()}
+              onSelectDate={handleSelectDate}
+              rangeStart={rangeStart}
+              rangeEnd={rangeEnd}
+              selected={pendingStart}
+              onHoverDate={pendingStart ? setHoveredDate : undefined}
+              tabbableDate={tabbableDate}
+              focusedDate={focusedDate}
+              onKeyDownDate={handleKeyDown}
+              isDateDisabled={isDateDisabled}
+              showJapaneseHolidays={showJapaneseHolidays}
+              holidays={holidays}
+              renderDay={renderDay}
+              locale={locale}
+              weekStartsOn={weekStartsOn}
+            />
+          ))}
+        </Months>
+      </Container>
+    )
+  },
+)
+
+const Container = styled.section<{ themes: Theme }>`
+  ${({ themes: { color, shadow } }) => css`
+    display: inline-block;
+    border-radius: 6px;
+    background-color: ${color.WHITE};
+    box-shadow: ${shadow.LAYER3};
+    color: ${color.TEXT_BLACK};
+    overflow: hidden;
+  `}
+`
+const Header = styled.header<{ themes: Theme }>(({ themes }) => {
+  const { color } = themes
+  return css`
+    display: flex;
+    align-items: center;
+    padding: 16px;
+    border-bottom: solid 1px ${color.BORDER};
+  `
+})
+const YearMonth = styled.div<{ themes: Theme }>(({ themes }) => {
+  const { fontSize } = themes
+  return css`
+    flex: 1;
+    font-size: ${fontSize.M};
+    font-weight: bold;
+    text-align: center;
+  `
+})
+const Months = styled.div`
+  display: flex;
+`
@@ -1,7 +1,8 @@
-import React, { HTMLAttributes, VFC, useLayoutEffect, useRef } from 'react'
+import React, { HTMLAttributes, MouseEvent, VFC, useLayoutEffect, useRef } from 'react'
 import styled, { css } from 'styled-components'
 
 import { Theme, useTheme } from '../../hooks/useTheme'
+import { CalendarEra, formatYear } from '../../libs/japaneseEra'
 import { UnstyledButton } from '../Button'
 
 import { useClassNames } from './useClassNames'
@@ -14,7 +15,9 @@ type Props = {
   /** 選択可能な終了年 */
   toYear: number
   /** トリガのセレクトイベントを処理するハンドラ */
-  onSelectYear: (year: number) => void
+  onSelectYear: (year: number, e: MouseEvent) => void
+  /** 年の表記 */
+  calendarEra?: CalendarEra
   /** 表示フラグ */
   isDisplayed: boolean
   /** HTMLのid属性 */
@@ -27,6 +30,7 @@ export const YearPicker: VFC<Props & ElementProps> = ({
   fromYear,
   toYear,
   onSelectYear,
+  calendarEra = 'gregorian',
   isDisplayed,
   id,
   ...props
@@ -64,13 +68,14 @@ export const YearPicker: VFC<Props & ElementProps> = ({
             <YearButton
               key={year}
               themes={themes}
-              onClick={() => onSelectYear(year)}
+              calendarEra={calendarEra}
+              onClick={(e) => onSelectYear(year, e)}
               aria-pressed={isSelectedYear}
               ref={isThisYear ? focusingRef : null}
               className={classNames.yearPicker.selectYear}
             >
               <YearWrapper themes={themes} isThisYear={isThisYear} isSelected={isSelectedYear}>
-                {year}
+                {calendarEra === 'gregorian' ? year : formatYear(year, calendarEra)}
               </YearWrapper>
             </YearButton>
           )
@@ -128,9 +133,10 @@ const YearWrapper = styled.span<{ themes: Theme; isThisYear?: boolean; isSelecte
     `
   },
 )
-const YearButton = styled(UnstyledButton)<{ themes: Theme }>`
-  ${({ themes: { color, leading, spacingByChar } }) => css`
-    width: 25%;
+const YearButton = styled(UnstyledButton)<{ themes: Theme; calendarEra: CalendarEra }>`
+  ${({ themes: { color, leading, spacingByChar }, calendarEra }) => css`
+    /* 和暦は「平成31年/令和元年」のように長くなるため、1 行に並べる数を減らす */
+    width: ${calendarEra === 'japanese' ? '50%' : '25%'};
     padding: ${spacingByChar(0.5)} 0;
     line-height: ${leading.NONE};
     display: flex;
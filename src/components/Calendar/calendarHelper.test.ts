@@ -1,4 +1,15 @@
-import { getFromDate, getMonthArray, getToDate, isBetween } from './calendarHelper'
+import {
+  findSelectableDate,
+  formatCalendarMonth,
+  formatCalendarYear,
+  formatCalendarYearMonth,
+  getDaysInWeek,
+  getFromDate,
+  getKeyboardMovedDate,
+  getMonthArray,
+  getToDate,
+  isBetween,
+} from './calendarHelper'
 
 describe('calendarHelper', () => {
   describe('getFromDate', () => {
@@ -89,6 +100,23 @@ describe('calendarHelper', () => {
       ]
       expect(getMonthArray(date)).toEqual(expected)
     })
+
+    it('returns calendar array of the week starting on Monday', () => {
+      const date = new Date(2020, 1, 1) // 2020-02-01
+      const expected = [
+        [null, null, null, null, null, 1, 2],
+        [3, 4, 5, 6, 7, 8, 9],
+        [10, 11, 12, 13, 14, 15, 16],
+        [17, 18, 19, 20, 21, 22, 23],
+        [24, 25, 26, 27, 28, 29, null],
+      ]
+      expect(getMonthArray(date, 1)).toEqual(expected)
+    })
+
+    it('returns calendar array without empty first week when the month starts on weekStartsOn', () => {
+      const date = new Date(2024, 3, 1) // 2024-04-01 (月)
+      expect(getMonthArray(date, 1)[0]).toEqual([1, 2, 3, 4, 5, 6, 7])
+    })
   })
 
   describe('isBetween', () => {
@@ -120,4 +148,128 @@ describe('calendarHelper', () => {
       expect(isBetween(date, from, to)).toBeTruthy()
     })
   })
+
+  describe('getKeyboardMovedDate', () => {
+    // 2024-05-15 (水)
+    const date = new Date(2024, 4, 15)
+
+    it('returns the date moved by day or week with arrow keys', () => {
+      expect(getKeyboardMovedDate(date, 'ArrowLeft', false)).toEqual(new Date(2024, 4, 14))
+      expect(getKeyboardMovedDate(date, 'ArrowRight', false)).toEqual(new Date(2024, 4, 16))
+      expect(getKeyboardMovedDate(date, 'ArrowUp', false)).toEqual(new Date(2024, 4, 8))
+      expect(getKeyboardMovedDate(date, 'ArrowDown', false)).toEqual(new Date(2024, 4, 22))
+    })
+
+    it('returns the date moved by month or year with PageUp and PageDown', () => {
+      expect(getKeyboardMovedDate(date, 'PageUp', false)).toEqual(new Date(2024, 3, 15))
+      expect(getKeyboardMovedDate(date, 'PageDown', false)).toEqual(new Date(2024, 5, 15))
+      expect(getKeyboardMovedDate(date, 'PageUp', true)).toEqual(new Date(2023, 4, 15))
+      expect(getKeyboardMovedDate(date, 'PageDown', true)).toEqual(new Date(2025, 4, 15))
+      // 移動先の月に同じ日がない場合は、月末に移動する
+      expect(getKeyboardMovedDate(new Date(2024, 2, 31), 'PageUp', false)).toEqual(
+        new Date(2024, 1, 29),
+      )
+    })
+
+    it('returns the boundary of the week with Home and End', () => {
+      expect(getKeyboardMovedDate(date, 'Home', false)).toEqual(new Date(2024, 4, 12))
+      expect(getKeyboardMovedDate(date, 'End', false)).toEqual(new Date(2024, 4, 18))
+    })
+
+    it('returns the boundary of the week starting on [weekStartsOn] with Home and End', () => {
+      expect(getKeyboardMovedDate(date, 'Home', false, 1)).toEqual(new Date(2024, 4, 13))
+      expect(getKeyboardMovedDate(date, 'End', false, 1)).toEqual(new Date(2024, 4, 19))
+      // 日曜日は月曜始まりの週の最後の日
+      const sunday = new Date(2024, 4, 19)
+      expect(getKeyboardMovedDate(sunday, 'Home', false, 1)).toEqual(new Date(2024, 4, 13))
+      expect(getKeyboardMovedDate(sunday, 'End', false, 1)).toEqual(sunday)
+    })
+
+    it('returns null for other keys', () => {
+      expect(getKeyboardMovedDate(date, 'Enter', false)).toBeNull()
+    })
+  })
+
+  describe('findSelectableDate', () => {
+    const from = new Date(2024, 4, 1)
+    const to = new Date(2024, 4, 31)
+    const isWeekend = (d: Date) => d.getDay() === 0 || d.getDay() === 6
+
+    it('returns the date when it is selectable', () => {
+      expect(findSelectableDate(new Date(2024, 4, 15), 1, from, to)).toEqual(new Date(2024, 4, 15))
+    })
+
+    it('skips disabled dates in the direction', () => {
+      // 2024-05-18 (土)
+      expect(findSelectableDate(new Date(2024, 4, 18), 1, from, to, isWeekend)).toEqual(
+        new Date(2024, 4, 20),
+      )
+      expect(findSelectableDate(new Date(2024, 4, 18), -1, from, to, isWeekend)).toEqual(
+        new Date(2024, 4, 17),
+      )
+    })
+
+    it('returns the date within [from] and [to]', () => {
+      expect(findSelectableDate(new Date(2024, 3, 20), -1, from, to)).toEqual(from)
+      expect(findSelectableDate(new Date(2024, 5, 10), 1, from, to)).toEqual(to)
+      expect(findSelectableDate(new Date(2024, 4, 31), 1, from, to, isWeekend)).toEqual(
+        new Date(2024, 4, 31),
+      )
+      expect(findSelectableDate(new Date(2024, 4, 4), -1, from, to, isWeekend)).toEqual(
+        new Date(2024, 4, 3),
+      )
+    })
+
+    it('returns null when there are no selectable dates', () => {
+      expect(findSelectableDate(new Date(2024, 4, 31), 1, from, to, () => true)).toBeNull()
+    })
+  })
+
+  describe('getDaysInWeek', () => {
+    it('returns japanese day names starting on Sunday by default', () => {
+      expect(getDaysInWeek()).toEqual(['日', '月', '火', '水', '木', '金', '土'])
+    })
+
+    it('returns day names starting on [weekStartsOn]', () => {
+      expect(getDaysInWeek('ja', 1)).toEqual(['月', '火', '水', '木', '金', '土', '日'])
+    })
+
+    it('returns day names of [locale]', () => {
+      expect(getDaysInWeek('en-US', 1)).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'])
+    })
+  })
+
+  describe('formatCalendarYearMonth', () => {
+    const date = new Date(2019, 4, 1)
+
+    it('returns japanese year and month by default', () => {
+      expect(formatCalendarYearMonth(date)).toBe('2019年5月')
+      expect(formatCalendarYearMonth(date, 'ja-JP', 'japanese')).toBe('令和元年5月')
+    })
+
+    it('returns year and month of [locale]', () => {
+      expect(formatCalendarYearMonth(date, 'en-US')).toBe('May 2019')
+    })
+  })
+
+  describe('formatCalendarYear', () => {
+    it('returns japanese year by default', () => {
+      expect(formatCalendarYear(2019)).toBe('2019年')
+      expect(formatCalendarYear(2019, undefined, 'japanese')).toBe('平成31年/令和元年')
+    })
+
+    it('returns year of [locale]', () => {
+      expect(formatCalendarYear(2019, 'en-US')).toBe('2019')
+    })
+  })
+
+  describe('formatCalendarMonth', () => {
+    it('returns japanese month by default', () => {
+      expect(formatCalendarMonth(4)).toBe('5月')
+    })
+
+    it('returns month of [locale]', () => {
+      expect(formatCalendarMonth(4, 'en-US')).toBe('May')
+    })
+  })
 })
@@ -1,5 +1,9 @@
 import dayjs from 'dayjs'
 
+import { CalendarEra, formatYear, formatYearMonth } from '../../libs/japaneseEra'
+
+import { WeekStartsOn } from './types'
+
 export const daysInWeek = ['日', '月', '火', '水', '木', '金', '土']
 
 export const minDate = new Date(1900, 0, 1)
@@ -27,8 +31,9 @@ export function getToDate(date?: Date): Date {
   return time > maxDatetime ? maxDate : date
 }
 
-export function getMonthArray(date: Date) {
-  const startDay = dayjs(date).date(1).day()
+export function getMonthArray(date: Date, weekStartsOn: WeekStartsOn = 0) {
+  // 週の始まりの曜日から数えた、1 日の位置
+  const startDay = (dayjs(date).date(1).day() - weekStartsOn + 7) % 7
   const lastDate = dayjs(date).add(1, 'month').date(0).date()
   const numOfWeek = Math.ceil((lastDate + startDay) / 7)
 
@@ -53,3 +58,107 @@ export function isBetween(date: Date, from: Date, to: Date) {
 }
 
 const toRoundDate = (d: Date): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate())
+
+/**
+ * キーボード操作によりフォーカスを移動する先の日付を返す。移動に使わないキーの場合は null を返す
+ * 矢印キーで前後の日・週へ、PageUp / PageDown で前後の月へ（Shift を押している場合は年へ）、Home / End で週の始め・終わりへ移動する
+ */
+export function getKeyboardMovedDate(
+  date: Date,
+  key: string,
+  shiftKey: boolean,
+  weekStartsOn: WeekStartsOn = 0,
+): Date | null {
+  const day = dayjs(date)
+  // 週の始まりの曜日から数えた、date の位置
+  const dayInWeek = (day.day() - weekStartsOn + 7) % 7
+
+  switch (key) {
+    case 'ArrowLeft':
+    case 'Left':
+      return day.subtract(1, 'day').toDate()
+    case 'ArrowRight':
+    case 'Right':
+      return day.add(1, 'day').toDate()
+    case 'ArrowUp':
+    case 'Up':
+      return day.subtract(1, 'week').toDate()
+    case 'ArrowDown':
+    case 'Down':
+      return day.add(1, 'week').toDate()
+    case 'PageUp':
+      return day.subtract(1, shiftKey ? 'year' : 'month').toDate()
+    case 'PageDown':
+      return day.add(1, shiftKey ? 'year' : 'month').toDate()
+    case 'Home':
+      return day.subtract(dayInWeek, 'day').toDate()
+    case 'End':
+      return day.add(6 - dayInWeek, 'day').toDate()
+  }
+  return null
+}
+
+/**
+ * date から direction の向きに、選択可能な最初の日付を探す。見つからない場合は null を返す
+ * date が from と to の期間外の場合は、期間の端から探す
+ */
+export function findSelectableDate(
+  date: Date,
+  direction: 1 | -1,
+  from: Date,
+  to: Date,
+  isDateDisabled?: (date: Date) => boolean,
+): Date | null {
+  let current = dayjs(date).startOf('date')
+  if (current.isBefore(from, 'date')) {
+    current = dayjs(from).startOf('date')
+  } else if (current.isAfter(to, 'date')) {
+    current = dayjs(to).startOf('date')
+  }
+
+  while (!current.isBefore(from, 'date') && !current.isAfter(to, 'date')) {
+    if (!isDateDisabled || !isDateDisabled(current.toDate())) {
+      return current.toDate()
+    }
+    current = current.add(direction, 'day')
+  }
+  return null
+}
+
+// locale を省略した場合は、日本語で表示する
+const isJapaneseLocale = (locale?: string) => !locale || locale === 'ja' || locale.startsWith('ja-')
+
+/** 週の始まりの曜日から順に、曜日の表示名を返す */
+export function getDaysInWeek(locale?: string, weekStartsOn: WeekStartsOn = 0) {
+  const names = isJapaneseLocale(locale)
+    ? daysInWeek
+    : // 2023-01-01 は日曜日
+      daysInWeek.map((_, i) =>
+        new Intl.DateTimeFormat(locale, { weekday: 'short' }).format(new Date(2023, 0, 1 + i)),
+      )
+  return [...names.slice(weekStartsOn), ...names.slice(0, weekStartsOn)]
+}
+
+/** カレンダーの見出しに表示する年月を返す */
+export function formatCalendarYearMonth(date: Date, locale?: string, calendarEra?: CalendarEra) {
+  if (isJapaneseLocale(locale)) {
+    return formatYearMonth(date, calendarEra ?? 'gregorian')
+  }
+  return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long' }).format(date)
+}
+
+/** カレンダーの見出しや年の一覧に表示する年を返す */
+export function formatCalendarYear(year: number, locale?: string, calendarEra?: CalendarEra) {
+  if (isJapaneseLocale(locale)) {
+    return formatYear(year, calendarEra ?? 'gregorian')
+  }
+  return new Intl.DateTimeFormat(locale, { year: 'numeric' }).format(new Date(year, 0, 1))
+}
+
+/** 月の一覧に表示する月を返す。month は 0 始まり */
+export function formatCalendarMonth(month: number, locale?: string) {
+  if (isJapaneseLocale(locale)) {
+    return `${month + 1}月`
+  }
+  return new Intl.DateTimeFormat(locale, { month: 'short' }).format(new Date(2000, month, 1))
+}
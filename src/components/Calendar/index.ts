@@ -1 +1,5 @@
 export { Calendar } from './Calendar'
+export { RangeCalendar } from './RangeCalendar'
+export type { CalendarDecorator, Granularity, Holiday, WeekStartsOn } from './types'
+export { getJapaneseHolidayName } from './japaneseHoliday'
+export type { CalendarEra } from '../../libs/japaneseEra'
@@ -0,0 +1,62 @@
+import { getJapaneseHolidayName } from './japaneseHoliday'
+
+describe('japaneseHoliday', () => {
+  describe('getJapaneseHolidayName', () => {
+    it('returns the name of fixed holidays', () => {
+      expect(getJapaneseHolidayName(new Date(2024, 0, 1))).toBe('元日')
+      expect(getJapaneseHolidayName(new Date(2024, 1, 23))).toBe('天皇誕生日')
+      expect(getJapaneseHolidayName(new Date(2018, 11, 23))).toBe('天皇誕生日')
+      expect(getJapaneseHolidayName(new Date(2024, 4, 3))).toBe('憲法記念日')
+      expect(getJapaneseHolidayName(new Date(2006, 3, 29))).toBe('みどりの日')
+      expect(getJapaneseHolidayName(new Date(2007, 3, 29))).toBe('昭和の日')
+    })
+
+    it('returns the name of holidays on the nth Monday', () => {
+      expect(getJapaneseHolidayName(new Date(2024, 0, 8))).toBe('成人の日')
+      expect(getJapaneseHolidayName(new Date(2024, 6, 15))).toBe('海の日')
+      expect(getJapaneseHolidayName(new Date(2024, 8, 16))).toBe('敬老の日')
+      expect(getJapaneseHolidayName(new Date(2024, 9, 14))).toBe('スポーツの日')
+      expect(getJapaneseHolidayName(new Date(2019, 9, 14))).toBe('体育の日')
+    })
+
+    it('returns the name of equinox days', () => {
+      expect(getJapaneseHolidayName(new Date(2024, 2, 20))).toBe('春分の日')
+      expect(getJapaneseHolidayName(new Date(2024, 8, 22))).toBe('秋分の日')
+      expect(getJapaneseHolidayName(new Date(2025, 2, 20))).toBe('春分の日')
+      expect(getJapaneseHolidayName(new Date(2025, 8, 23))).toBe('秋分の日')
+    })
+
+    it('returns the name of substitute holidays', () => {
+      // 2024-02-11 (日) 建国記念の日
+      expect(getJapaneseHolidayName(new Date(2024, 1, 12))).toBe('振替休日')
+      // 2020-05-03 (日) 憲法記念日 の振替休日は、5/4, 5/5 の後の 5/6
+      expect(getJapaneseHolidayName(new Date(2020, 4, 6))).toBe('振替休日')
+      // 2006 年以前は翌日の月曜日のみ
+      expect(getJapaneseHolidayName(new Date(2003, 10, 24))).toBe('振替休日')
+    })
+
+    it('returns the name of days between holidays', () => {
+      expect(getJapaneseHolidayName(new Date(2015, 8, 22))).toBe('国民の休日')
+      expect(getJapaneseHolidayName(new Date(2019, 3, 30))).toBe('国民の休日')
+      expect(getJapaneseHolidayName(new Date(2019, 4, 1))).toBe('休日')
+      expect(getJapaneseHolidayName(new Date(2019, 4, 2))).toBe('国民の休日')
+    })
+
+    it('returns the name of holidays moved for the Olympics', () => {
+      expect(getJapaneseHolidayName(new Date(2021, 6, 22))).toBe('海の日')
+      expect(getJapaneseHolidayName(new Date(2021, 6, 23))).toBe('スポーツの日')
+      expect(getJapaneseHolidayName(new Date(2021, 7, 8))).toBe('山の日')
+      expect(getJapaneseHolidayName(new Date(2021, 7, 9))).toBe('振替休日')
+      expect(getJapaneseHolidayName(new Date(2021, 6, 19))).toBeNull()
+      expect(getJapaneseHolidayName(new Date(2021, 7, 11))).toBeNull()
+      expect(getJapaneseHolidayName(new Date(2021, 9, 11))).toBeNull()
+    })
+
+    it('returns null for weekdays and unsupported years', () => {
+      expect(getJapaneseHolidayName(new Date(2024, 0, 9))).toBeNull()
+      expect(getJapaneseHolidayName(new Date(2024, 1, 11 + 7))).toBeNull()
+      expect(getJapaneseHolidayName(new Date(1988, 0, 1))).toBeNull()
+      expect(getJapaneseHolidayName(new Date(2100, 0, 1))).toBeNull()
+    })
+  })
+})
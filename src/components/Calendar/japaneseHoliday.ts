@@ -0,0 +1,135 @@
+// 祝日を算出できる期間。春分日・秋分日の計算式が 2099 年までしか使えないため、平成以降から 2099 年までとする
+const MIN_YEAR = 1989
+const MAX_YEAR = 2099
+
+// 法律や特例法により、その年だけ定められた祝日・休日
+const SPECIAL_HOLIDAYS: { [date: string]: string } = {
+  '1989-2-24': '昭和天皇の大喪の礼',
+  '1990-11-12': '即位礼正殿の儀',
+  '1993-6-9': '皇太子徳仁親王の結婚の儀',
+  '2019-5-1': '休日',
+  '2019-10-22': '即位礼正殿の儀',
+  // 東京オリンピック・パラリンピックの開催に伴い、海の日・スポーツの日・山の日が移動した
+  '2020-7-23': '海の日',
+  '2020-7-24': 'スポーツの日',
+  '2020-8-10': '山の日',
+  '2021-7-22': '海の日',
+  '2021-7-23': 'スポーツの日',
+  '2021-8-8': '山の日',
+}
+const MOVED_HOLIDAY_YEARS = [2020, 2021]
+
+/** month 月の n 回目の月曜日の日にちを返す。month は 0 始まり */
+const getNthMonday = (year: number, month: number, n: number) => {
+  const firstDay = new Date(year, month, 1).getDay()
+  return ((8 - firstDay) % 7) + 1 + (n - 1) * 7
+}
+
+const getVernalEquinoxDay = (year: number) =>
+  Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4))
+
+const getAutumnalEquinoxDay = (year: number) =>
+  Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4))
+
+/** 国民の祝日に関する法律で定められた祝日の名前を返す。振替休日と国民の休日は含まない */
+const getNationalHolidayName = (year: number, month: number, date: number): string | null => {
+  const special = SPECIAL_HOLIDAYS[`${year}-${month + 1}-${date}`]
+  if (special) {
+    return special
+  }
+  const isMovedYear = MOVED_HOLIDAY_YEARS.includes(year)
+
+  switch (month) {
+    case 0:
+      if (date === 1) return '元日'
+      if (year >= 2000 ? date === getNthMonday(year, 0, 2) : date === 15) return '成人の日'
+      break
+    case 1:
+      if (date === 11) return '建国記念の日'
+      if (year >= 2020 && date === 23) return '天皇誕生日'
+      break
+    case 2:
+      if (date === getVernalEquinoxDay(year)) return '春分の日'
+      break
+    case 3:
+      if (date === 29) return year >= 2007 ? '昭和の日' : 'みどりの日'
+      break
+    case 4:
+      if (date === 3) return '憲法記念日'
+      if (year >= 2007 && date === 4) return 'みどりの日'
+      if (date === 5) return 'こどもの日'
+      break
+    case 6:
+      if (isMovedYear) break
+      if (year >= 2003 ? date === getNthMonday(year, 6, 3) : year >= 1996 && date === 20) {
+        return '海の日'
+      }
+      break
+    case 7:
+      if (!isMovedYear && year >= 2016 && date === 11) return '山の日'
+      break
+    case 8:
+      if (year >= 2003 ? date === getNthMonday(year, 8, 3) : date === 15) return '敬老の日'
+      if (date === getAutumnalEquinoxDay(year)) return '秋分の日'
+      break
+    case 9:
+      if (isMovedYear) break
+      if (year >= 2000 ? date === getNthMonday(year, 9, 2) : date === 10) {
+        return year >= 2020 ? 'スポーツの日' : '体育の日'
+      }
+      break
+    case 10:
+      if (date === 3) return '文化の日'
+      if (date === 23) return '勤労感謝の日'
+      break
+    case 11:
+      if (year <= 2018 && date === 23) return '天皇誕生日'
+      break
+  }
+  return null
+}
+
+const getNationalHolidayNameOf = (date: Date) =>
+  getNationalHolidayName(date.getFullYear(), date.getMonth(), date.getDate())
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+/**
+ * 日本の祝日・休日の名前を返す。祝日でない場合は null を返す
+ * 振替休日と国民の休日を含む。1989 年から 2099 年までに対応している
+ */
+export function getJapaneseHolidayName(date: Date): string | null {
+  const year = date.getFullYear()
+  if (isNaN(year) || year < MIN_YEAR || year > MAX_YEAR) {
+    return null
+  }
+
+  const name = getNationalHolidayNameOf(date)
+  if (name) {
+    return name
+  }
+
+  // 祝日が日曜日にあたる場合は、その日の後の最も近い祝日でない日を休日とする
+  // 2006 年以前は、翌日の月曜日のみが振替休日となる
+  if (year >= 2007) {
+    for (let prev = addDays(date, -1); getNationalHolidayNameOf(prev); prev = addDays(prev, -1)) {
+      if (prev.getDay() === 0) {
+        return '振替休日'
+      }
+    }
+  } else if (date.getDay() === 1 && getNationalHolidayNameOf(addDays(date, -1))) {
+    return '振替休日'
+  }
+
+  // 前日と翌日が祝日である日は休日とする
+  if (
+    date.getDay() !== 0 &&
+    getNationalHolidayNameOf(addDays(date, -1)) &&
+    getNationalHolidayNameOf(addDays(date, 1))
+  ) {
+    return '国民の休日'
+  }
+
+  return null
+}
@@ -0,0 +1,42 @@
+import { ReactNode } from 'react'
+
+/** 選択する単位。`month` と `year` の場合は、その期間の初日を選択した日付として扱う */
+export type Granularity = 'day' | 'month' | 'year'
+
+/** 週の始まりの曜日。0 が日曜日、1 が月曜日 */
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+export type LocaleProps = {
+  /** 曜日や見出しの年月を表示する言語。`en-US` のような BCP 47 の言語タグで指定する。省略した場合は日本語で表示する */
+  locale?: string
+  /** 週の始まりの曜日。0 が日曜日、1 が月曜日 */
+  weekStartsOn?: WeekStartsOn
+}
+
+type DecoratorFunctionType = (text: string) => string
+
+/** カレンダー内のテキストを変更する関数。`locale` に合わせてボタンの代替テキストを変更する場合などに使う */
+export type CalendarDecorator = {
+  selectYearIconAlt?: DecoratorFunctionType
+  prevMonthIconAlt?: DecoratorFunctionType
+  nextMonthIconAlt?: DecoratorFunctionType
+  prevYearIconAlt?: DecoratorFunctionType
+  nextYearIconAlt?: DecoratorFunctionType
+}
+
+export type Holiday = {
+  date: Date
+  /** 休日の名前。スクリーンリーダーで日付と共に読み上げられる */
+  name: string
+}
+
+export type DayProps = {
+  /** `true` を返した日付を選択できないようにする関数 */
+  isDateDisabled?: (date: Date) => boolean
+  /** 日本の祝日・休日を表示するかどうか */
+  showJapaneseHolidays?: boolean
+  /** 会社独自の休日など、祝日と同様に表示する休日 */
+  holidays?: Holiday[]
+  /** 日付の表示をカスタマイズする関数。`day` は既定で表示する日付の要素 */
+  renderDay?: (date: Date, day: ReactNode) => ReactNode
+}
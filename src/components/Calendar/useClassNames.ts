@@ -4,12 +4,16 @@ import { useClassNameGenerator } from '../../hooks/useClassNameGenerator'
 
 import { Calendar } from './Calendar'
 import { CalendarTable } from './CalendarTable'
+import { MonthPicker } from './MonthPicker'
+import { RangeCalendar } from './RangeCalendar'
 import { YearPicker } from './YearPicker'
 
 export const useClassNames = () => {
   const generateCalendar = useClassNameGenerator(Calendar.displayName || 'Calendar')
   const generateYearPicker = useClassNameGenerator(YearPicker.displayName || 'YearPicker')
   const generateCalendarTable = useClassNameGenerator(CalendarTable.displayName || 'CalendarTable')
+  const generateRangeCalendar = useClassNameGenerator(RangeCalendar.displayName || 'RangeCalendar')
+  const generateMonthPicker = useClassNameGenerator(MonthPicker.displayName || 'MonthPicker')
 
   return useMemo(
     () => ({
@@ -22,16 +26,34 @@ export const useClassNames = () => {
         monthButtonPrev: generateCalendar('monthButtonPrev'),
         monthButtonNext: generateCalendar('monthButtonNext'),
       },
+      rangeCalendar: {
+        wrapper: generateRangeCalendar(),
+        header: generateRangeCalendar('header'),
+        yearMonth: generateRangeCalendar('yearMonth'),
+        monthButtonPrev: generateRangeCalendar('monthButtonPrev'),
+        monthButtonNext: generateRangeCalendar('monthButtonNext'),
+      },
       yearPicker: {
         wrapper: generateYearPicker(),
         selectYear: generateYearPicker('selectYear'),
       },
+      monthPicker: {
+        wrapper: generateMonthPicker(),
+        selectMonth: generateMonthPicker('selectMonth'),
+      },
       calendarTable: {
         wrapper: generateCalendarTable(),
         headCell: generateCalendarTable('headCell'),
         dataCell: generateCalendarTable('dataCell'),
+        holiday: generateCalendarTable('holiday'),
       },
     }),
-    [generateCalendar, generateYearPicker, generateCalendarTable],
+    [
+      generateCalendar,
+      generateYearPicker,
+      generateCalendarTable,
+      generateRangeCalendar,
+      generateMonthPicker,
+    ],
   )
 }
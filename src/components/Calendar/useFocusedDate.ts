@@ -0,0 +1,86 @@
+import dayjs from 'dayjs'
+import { KeyboardEvent, useState } from 'react'
+
+import { findSelectableDate, getKeyboardMovedDate } from './calendarHelper'
+import { WeekStartsOn } from './types'
+
+export function useFocusedDate({
+  from,
+  to,
+  isDateDisabled,
+  firstMonth,
+  lastMonth,
+  selected,
+  weekStartsOn,
+  onMoveMonth,
+}: {
+  /** 選択可能な開始日 */
+  from: Date
+  /** 選択可能な終了日 */
+  to: Date
+  isDateDisabled?: (date: Date) => boolean
+  /** 表示している最初の月 */
+  firstMonth: dayjs.Dayjs
+  /** 表示している最後の月 */
+  lastMonth: dayjs.Dayjs
+  selected?: Date | null
+  /** Home / End キーで移動する週の始まりの曜日 */
+  weekStartsOn?: WeekStartsOn
+  /** 表示していない月の日付にフォーカスを移動する時に、その月を表示するためのコールバック関数 */
+  onMoveMonth: (date: Date) => void
+}) {
+  // キーボード操作でフォーカスを移動した日付
+  const [focusedDate, setFocusedDate] = useState<Date | null>(null)
+
+  const isDisplayed = (date: Date | null | undefined): date is Date =>
+    !!date && !dayjs(date).isBefore(firstMonth, 'month') && !dayjs(date).isAfter(lastMonth, 'month')
+  const isSelectable = (date: Date) =>
+    !dayjs(date).isBefore(from, 'date') &&
+    !dayjs(date).isAfter(to, 'date') &&
+    (!isDateDisabled || !isDateDisabled(date))
+
+  // Tab キーでフォーカスできる日付。表示している月の中で 1 つだけをフォーカスできるようにする (roving tabindex)
+  const today = dayjs().startOf('date').toDate()
+  const firstDate = firstMonth.startOf('month')
+  const lastDate = lastMonth.endOf('month')
+  const tabbableDate =
+    [focusedDate, selected, today].find(
+      (date): date is Date => isDisplayed(date) && isSelectable(date),
+    ) ??
+    findSelectableDate(
+      firstDate.toDate(),
+      1,
+      firstDate.isBefore(from) ? from : firstDate.toDate(),
+      lastDate.isAfter(to) ? to : lastDate.toDate(),
+      isDateDisabled,
+    )
+
+  const handleKeyDown = (e: KeyboardEvent, date: Date) => {
+    const moved = getKeyboardMovedDate(date, e.key, e.shiftKey, weekStartsOn)
+    if (!moved) {
+      return
+    }
+    e.preventDefault()
+    const next = findSelectableDate(
+      moved,
+      moved.getTime() < date.getTime() ? -1 : 1,
+      from,
+      to,
+      isDateDisabled,
+    )
+    if (!next) {
+      return
+    }
+    setFocusedDate(next)
+    if (!isDisplayed(next)) {
+      onMoveMonth(next)
+    }
+  }
+
+  return {
+    focusedDate,
+    setFocusedDate,
+    tabbableDate,
+    handleKeyDown,
+  }
+}
@@ -3,7 +3,7 @@ import { Story } from '@storybook/react'
 import React, { useCallback, useState } from 'react'
 import styled from 'styled-components'
 
-import { MultiComboBox, SingleComboBox } from '.'
+import { MultiComboBox, SingleComboBox, japaneseMatcher } from '.'
 
 export default {
   title: 'ComboBox',
@@ -52,7 +52,7 @@ const defaultItems = [
   },
 ]
 
-const manyItems = Array.from({ length: 2000 }).map((_, i) => ({
+const manyItems = Array.from({ length: 20000 }).map((_, i) => ({
   label: `option ${i}`,
   value: `option ${i}`,
 }))
@@ -505,6 +505,285 @@ export const Multi: Story = () => {
   )
 }
 
+const groupedItems = [
+  { label: '山田 太郎', value: '1', group: '開発部' },
+  { label: '鈴木 花子', value: '2', group: '営業部' },
+  { label: '佐藤 次郎', value: '3', group: '開発部' },
+  { label: '高橋 三郎', value: '4', group: '人事部' },
+  { label: '田中 四郎', value: '5', group: '営業部', disabled: true },
+  { label: '伊藤 五郎', value: '6', group: '人事部' },
+]
+
+export const Grouped: Story = () => {
+  const [selectedItem, setSelectedItem] = useState<Item | null>(null)
+  const [selectedItems, setSelectedItems] = useState<Item[]>([])
+
+  return (
+    <List>
+      <dt>Single</dt>
+      <dd>
+        <SingleComboBox
+          name="grouped_single"
+          items={groupedItems}
+          selectedItem={selectedItem}
+          width={400}
+          onChangeSelected={setSelectedItem}
+        />
+      </dd>
+      <dt>Multi</dt>
+      <dd>
+        <MultiComboBox
+          name="grouped_multi"
+          items={groupedItems}
+          selectedItems={selectedItems}
+          width={400}
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+const employeeItems = [
+  { label: '山田 太郎', value: '1', reading: 'やまだ たろう' },
+  { label: '鈴木 花子', value: '2', reading: 'すずき はなこ' },
+  { label: 'ｻﾄｳ ｼﾞﾛｳ', value: '3' },
+  { label: 'タカハシ サブロウ', value: '4' },
+]
+
+export const JapaneseMatcher: Story = () => {
+  const [selectedItem, setSelectedItem] = useState<Item | null>(null)
+  const [selectedItems, setSelectedItems] = useState<Item[]>([])
+
+  return (
+    <List>
+      <dt>Single</dt>
+      <dd>
+        <SingleComboBox
+          name="japanese_single"
+          items={employeeItems}
+          selectedItem={selectedItem}
+          matcher={japaneseMatcher}
+          width={400}
+          dropdownHelpMessage="ひらがな・カタカナや読み仮名で絞り込めます。"
+          onChangeSelected={setSelectedItem}
+        />
+      </dd>
+      <dt>Multi</dt>
+      <dd>
+        <MultiComboBox
+          name="japanese_multi"
+          items={employeeItems}
+          selectedItems={selectedItems}
+          matcher={japaneseMatcher}
+          width={400}
+          dropdownHelpMessage="ひらがな・カタカナや読み仮名で絞り込めます。"
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+type EmployeeDetailItem = Item & { data?: { number: string; department: string } }
+
+const employeeDetailItems: EmployeeDetailItem[] = [
+  { label: '山田 太郎', value: '1', data: { number: '001', department: '開発部' } },
+  { label: '鈴木 花子', value: '2', data: { number: '002', department: '営業部' } },
+  { label: '佐藤 次郎', value: '3', data: { number: '003', department: '人事部' } },
+]
+export const CustomRendering: Story = () => {
+  const [selectedItem, setSelectedItem] = useState<EmployeeDetailItem | null>(null)
+  const [selectedItems, setSelectedItems] = useState<EmployeeDetailItem[]>([])
+  const renderOption = (item: EmployeeDetailItem) => (
+    <>
+      <OptionName>{item.label}</OptionName>
+      <OptionDetail>
+        {item.data?.number} {item.data?.department}
+      </OptionDetail>
+    </>
+  )
+
+  return (
+    <List>
+      <dt>Single</dt>
+      <dd>
+        <SingleComboBox
+          name="custom_single"
+          items={employeeDetailItems}
+          selectedItem={selectedItem}
+          renderOption={renderOption}
+          width={400}
+          onChangeSelected={setSelectedItem}
+        />
+      </dd>
+      <dt>Multi</dt>
+      <dd>
+        <MultiComboBox
+          name="custom_multi"
+          items={employeeDetailItems}
+          selectedItems={selectedItems}
+          renderOption={renderOption}
+          renderSelectedItem={(item) => `${item.label}（${item.data?.number}）`}
+          width={400}
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+const PAGE_SIZE = 50
+
+// サーバーでの絞り込みとページングを模した関数
+const loadEmployees = (query: string, { signal, page }: { signal: AbortSignal; page: number }) =>
+  new Promise<{ items: Item[]; hasMore: boolean }>((resolve, reject) => {
+    const timerId = setTimeout(() => {
+      const matched = manyItems.filter(({ label }) => label.includes(query))
+      resolve({
+        items: matched.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+        hasMore: page * PAGE_SIZE < matched.length,
+      })
+    }, 500)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timerId)
+      reject(new DOMException('Aborted', 'AbortError'))
+    })
+  })
+
+export const AsyncLoading: Story = () => {
+  const [selectedItem, setSelectedItem] = useState<Item | null>(null)
+  const [selectedItems, setSelectedItems] = useState<Item[]>([])
+
+  return (
+    <List>
+      <dt>Single</dt>
+      <dd>
+        <SingleComboBox
+          name="async_single"
+          loadOptions={loadEmployees}
+          selectedItem={selectedItem}
+          width={400}
+          dropdownHelpMessage="入力すると候補を読み込みます。"
+          onChangeSelected={setSelectedItem}
+        />
+      </dd>
+      <dt>Multi</dt>
+      <dd>
+        <MultiComboBox
+          name="async_multi"
+          loadOptions={loadEmployees}
+          selectedItems={selectedItems}
+          width={400}
+          dropdownHelpMessage="入力すると候補を読み込みます。"
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+export const BulkSelection: Story = () => {
+  const [limitedItems, setLimitedItems] = useState<Item[]>([])
+  const [selectedItems, setSelectedItems] = useState<Item[]>(manyItems.slice(0, 30))
+
+  return (
+    <List>
+      <dt>選択できる数の上限</dt>
+      <dd>
+        <MultiComboBox
+          name="bulk_limited"
+          items={manyItems.slice(0, 100)}
+          selectedItems={limitedItems}
+          maxSelectedItems={5}
+          enableSelectAll
+          enableClearAll
+          width={400}
+          onChangeSelected={setLimitedItems}
+        />
+      </dd>
+      <dt>選択済みアイテムを 2 行まで表示</dt>
+      <dd>
+        <MultiComboBox
+          name="bulk_collapsed"
+          items={manyItems.slice(0, 100)}
+          selectedItems={selectedItems}
+          maxSelectedItemLines={2}
+          enableSelectAll
+          enableClearAll
+          width={400}
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+export const Reorderable: Story = () => {
+  const [selectedItems, setSelectedItems] = useState<Item[]>(manyItems.slice(0, 4))
+
+  return (
+    <List>
+      <dt>ドラッグ＆ドロップ、または削除ボタンにフォーカスして Alt + 左右キーで並び替え</dt>
+      <dd>
+        <MultiComboBox
+          name="reorderable"
+          items={manyItems.slice(0, 100)}
+          selectedItems={selectedItems}
+          reorderable
+          width={400}
+          onChangeSelected={setSelectedItems}
+        />
+      </dd>
+    </List>
+  )
+}
+
+export const CreatableValidation: Story = () => {
+  const [items, setItems] = useState<Item[]>(defaultItems)
+  const [selectedItems, setSelectedItems] = useState<Item[]>([])
+  const validateNewItem = (label: string) => {
+    const normalized = label.trim()
+    return normalized.length < 2 ? { error: '2文字以上で入力してください' } : { label: normalized }
+  }
+  // サーバーへの登録を模した関数
+  const handleAdd = (label: string) =>
+    new Promise<void>((resolve) => {
+      setTimeout(() => {
+        const item = { label, value: label }
+        setItems((current) => [...current, item])
+        setSelectedItems((current) => [...current, item])
+        resolve()
+      }, 1000)
+    })
+
+  return (
+    <List>
+      <dt>前後の空白を取り除き、2文字未満は追加できない</dt>
+      <dd>
+        <MultiComboBox
+          name="creatable_validation"
+          items={items}
+          selectedItems={selectedItems}
+          creatable
+          validateNewItem={validateNewItem}
+          width={400}
+          onAdd={handleAdd}
+          onChangeSelected={setSelectedItems}
+          decorator={{ addItemText: (_, label) => `「${label}」を新しく登録` }}
+        />
+      </dd>
+    </List>
+  )
+}
+
+const OptionName = styled.span`
+  display: block;
+`
+const OptionDetail = styled.span`
+  display: block;
+  font-size: 0.75em;
+`
 const List = styled.dl`
   margin: 1rem 1.5rem;
   dd {
@@ -4,8 +4,12 @@ type ComboBoxContextType = {
   listBoxClassNames: {
     dropdownList: string
     addButton: string
+    selectAllButton: string
     selectButton: string
+    groupLabel: string
     noItems: string
+    loadError: string
+    statusMessage: string
   }
 }
 
@@ -13,7 +17,11 @@ export const ComboBoxContext = createContext<ComboBoxContextType>({
   listBoxClassNames: {
     dropdownList: '',
     addButton: '',
+    selectAllButton: '',
     selectButton: '',
+    groupLabel: '',
     noItems: '',
+    loadError: '',
+    statusMessage: '',
   },
 })
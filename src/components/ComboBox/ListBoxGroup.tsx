@@ -0,0 +1,60 @@
+import React, { ReactNode, useContext } from 'react'
+import styled, { css } from 'styled-components'
+
+import { useId } from '../../hooks/useId'
+import { Theme, useTheme } from '../../hooks/useTheme'
+
+import { ComboBoxContext } from './ComboBoxContext'
+import { VIRTUAL_INDEX_ATTRIBUTE } from './useVirtualList'
+
+type Props = {
+  label: string
+  /** 見出しの行のインデックス。見出しがスクロールにより描画範囲外にある場合は undefined */
+  labelIndex?: number
+  children: ReactNode
+}
+
+export const ListBoxGroup: React.VFC<Props> = ({ label, labelIndex, children }) => {
+  const theme = useTheme()
+  const labelId = useId()
+  const { listBoxClassNames: classNames } = useContext(ComboBoxContext)
+
+  if (labelIndex === undefined) {
+    // 見出しを描画しない場合も、グループ名を読み上げられるようにする
+    return (
+      <div role="group" aria-label={label}>
+        {children}
+      </div>
+    )
+  }
+
+  return (
+    <div role="group" aria-labelledby={labelId}>
+      {/* 見出しは選択肢ではないため、キーボード操作の対象にしない */}
+      <GroupLabel
+        {...{ [VIRTUAL_INDEX_ATTRIBUTE]: labelIndex }}
+        id={labelId}
+        role="presentation"
+        themes={theme}
+        className={classNames.groupLabel}
+      >
+        {label}
+      </GroupLabel>
+      {children}
+    </div>
+  )
+}
+
+const GroupLabel = styled.div<{ themes: Theme }>`
+  ${({ themes }) => {
+    const { color, fontSize, leading, spacingByChar } = themes
+
+    return css`
+      padding: ${spacingByChar(0.5)} ${spacingByChar(1)} ${spacingByChar(0.25)};
+      color: ${color.TEXT_GREY};
+      font-size: ${fontSize.S};
+      font-weight: bold;
+      line-height: ${leading.TIGHT};
+    `
+  }}
+`
@@ -1,11 +1,12 @@
-import React, { RefObject, useCallback, useContext } from 'react'
+import React, { ReactNode, useCallback, useContext } from 'react'
 import styled, { css } from 'styled-components'
 
 import { Theme, useTheme } from '../../hooks/useTheme'
-import { FaPlusCircleIcon } from '../Icon'
+import { FaCheckSquareIcon, FaPlusCircleIcon } from '../Icon'
 
 import { ComboBoxContext } from './ComboBoxContext'
-import { ComboBoxOption } from './types'
+import { ComboBoxOption, MatchedRange, RenderOption } from './types'
+import { VIRTUAL_INDEX_ATTRIBUTE } from './useVirtualList'
 
 type Props<T> = {
   option: ComboBoxOption<T>
@@ -13,12 +14,40 @@ type Props<T> = {
   onAdd: (option: ComboBoxOption<T>) => void
   onSelect: (option: ComboBoxOption<T>) => void
   onMouseOver: (option: ComboBoxOption<T>) => void
-  activeRef: RefObject<HTMLButtonElement>
+  renderOption?: RenderOption<T>
+  /** `true` のとき、新しいアイテムを追加している途中の状態になる */
+  isPending?: boolean
+  addItemText?: (text: string, label: string) => ReactNode
+  /** 仮想スクロールで高さを計測するための行のインデックス */
+  index?: number
 }
 
-function ListBoxItem<T>({ option, isActive, onAdd, onSelect, onMouseOver, activeRef }: Props<T>) {
+const highlight = (label: string, range: MatchedRange | undefined) => {
+  if (!range || range.start >= range.end) {
+    return label
+  }
+  return (
+    <>
+      {label.slice(0, range.start)}
+      <Highlight>{label.slice(range.start, range.end)}</Highlight>
+      {label.slice(range.end)}
+    </>
+  )
+}
+
+function ListBoxItem<T>({
+  option,
+  isActive,
+  onAdd,
+  onSelect,
+  onMouseOver,
+  renderOption,
+  isPending = false,
+  addItemText,
+  index,
+}: Props<T>) {
   const className = isActive ? 'active' : ''
-  const { item, selected, isNew } = option
+  const { item, selected, isNew, isSelectAll, matchedRange, error } = option
   const { label, disabled } = item
 
   const handleAdd = useCallback(() => {
@@ -36,22 +65,53 @@ function ListBoxItem<T>({ option, isActive, onAdd, onSelect, onMouseOver, active
   const theme = useTheme()
   const { listBoxClassNames: classNames } = useContext(ComboBoxContext)
 
+  if (isSelectAll) {
+    return (
+      <AddButton
+        {...{ [VIRTUAL_INDEX_ATTRIBUTE]: index }}
+        key={option.id}
+        type="button"
+        themes={theme}
+        onClick={handleSelect}
+        onMouseOver={handleMouseOver}
+        id={option.id}
+        role="option"
+        className={`${className} ${classNames.selectAllButton}`}
+      >
+        <SelectAllIcon color={theme.color.TEXT_LINK} themes={theme} />
+        <AddText themes={theme}>{label}</AddText>
+      </AddButton>
+    )
+  }
+
+  const addText = `「${label}」を追加`
+  const isAddDisabled = disabled || isPending || error !== undefined
+
   return isNew ? (
     <AddButton
+      {...{ [VIRTUAL_INDEX_ATTRIBUTE]: index }}
       key={option.id}
       themes={theme}
+      disabled={disabled || isPending}
+      // 追加できない理由を含めて読み上げられるよう、disabled ではなく aria-disabled にする
+      aria-disabled={isAddDisabled || undefined}
       onClick={handleAdd}
       onMouseOver={handleMouseOver}
       id={option.id}
       role="option"
+      aria-busy={isPending || undefined}
       className={`${className} ${classNames.addButton}`}
-      ref={isActive ? activeRef : undefined}
     >
-      <AddIcon color={theme.color.TEXT_LINK} themes={theme} />
-      <AddText themes={theme}>「{label}」を追加</AddText>
+      <AddIcon
+        color={isAddDisabled ? theme.color.TEXT_DISABLED : theme.color.TEXT_LINK}
+        themes={theme}
+      />
+      <AddText themes={theme}>{addItemText ? addItemText(addText, label) : addText}</AddText>
+      {error && <ErrorText themes={theme}>{error}</ErrorText>}
     </AddButton>
   ) : (
     <SelectButton
+      {...{ [VIRTUAL_INDEX_ATTRIBUTE]: index }}
       key={option.id}
       type="button"
       themes={theme}
@@ -62,9 +122,10 @@ function ListBoxItem<T>({ option, isActive, onAdd, onSelect, onMouseOver, active
       role="option"
       className={`${className} ${classNames.selectButton}`}
       aria-selected={selected}
-      ref={isActive ? activeRef : undefined}
     >
-      {label}
+      {renderOption
+        ? renderOption(item, { active: isActive, selected })
+        : highlight(label, matchedRange)}
     </SelectButton>
   )
 }
@@ -100,13 +161,19 @@ const SelectButton = styled.button<{ themes: Theme }>`
         }
       }
 
-      &[disabled] {
+      &[disabled],
+      &[aria-disabled='true'] {
         color: ${color.TEXT_DISABLED};
         cursor: not-allowed;
       }
     `
   }}
 `
+const Highlight = styled.mark`
+  background-color: transparent;
+  color: inherit;
+  font-weight: bold;
+`
 const AddButton = styled(SelectButton)`
   display: flex;
   align-items: center;
@@ -123,12 +190,39 @@ const AddIcon = styled(FaPlusCircleIcon)<{ themes: Theme }>`
     `
   }}
 `
+const SelectAllIcon = styled(FaCheckSquareIcon)<{ themes: Theme }>`
+  ${({ themes }) => {
+    const { spacingByChar } = themes
+
+    return css`
+      position: relative;
+      top: -1px;
+      margin-right: ${spacingByChar(0.25)};
+    `
+  }}
+`
 const AddText = styled.span<{ themes: Theme }>`
   ${({ themes }) => {
     const { color } = themes
 
     return css`
       color: ${color.TEXT_LINK};
+
+      [disabled] > &,
+      [aria-disabled='true'] > & {
+        color: ${color.TEXT_DISABLED};
+      }
+    `
+  }}
+`
+const ErrorText = styled.span<{ themes: Theme }>`
+  ${({ themes }) => {
+    const { color, fontSize, spacingByChar } = themes
+
+    return css`
+      margin-left: ${spacingByChar(0.5)};
+      color: ${color.DANGER};
+      font-size: ${fontSize.S};
     `
   }}
 `
@@ -1,5 +1,6 @@
 import React, {
   ChangeEvent,
+  DragEvent,
   HTMLAttributes,
   KeyboardEvent,
   ReactNode,
@@ -11,29 +12,89 @@ import React, {
 } from 'react'
 import styled, { css } from 'styled-components'
 
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
 import { useId } from '../../hooks/useId'
 import { useOuterClick } from '../../hooks/useOuterClick'
 import { Theme, useTheme } from '../../hooks/useTheme'
-import { FaCaretDownIcon } from '../Icon'
+import { UnstyledButton } from '../Button'
+import { FaCaretDownIcon, FaTimesCircleIcon } from '../Icon'
 
 import { ComboBoxContext } from './ComboBoxContext'
 import { MultiSelectedItem } from './MultiSelectedItem'
-import { hasParentElementByClassName } from './multiComboBoxHelper'
-import { ComboBoxItem } from './types'
+import {
+  getSelectableItems,
+  hasParentElementByClassName,
+  isSelectedItem,
+  moveItem,
+} from './multiComboBoxHelper'
+import { ComboBoxItem, ComboBoxMatcher, RenderOption, ValidateNewItem } from './types'
+import { LoadOptions, useAsyncOptions } from './useAsyncOptions'
 import { useMultiComboBoxClassNames } from './useClassNames'
+import { useCollapsedSelectedItems } from './useCollapsedSelectedItems'
 import { useFocusControl } from './useFocusControl'
 import { useListBox } from './useListBox'
 import { useOptions } from './useOptions'
 
 type Props<T> = {
   /**
-   * 選択可能なアイテムのリスト
+   * 選択可能なアイテムのリスト。`loadOptions` を指定した場合は不要
    */
-  items: Array<ComboBoxItem<T>>
+  items?: Array<ComboBoxItem<T>>
+  /**
+   * 入力値に応じて選択肢を非同期に読み込む関数。指定した場合は `items` の代わりに読み込んだ選択肢を表示する
+   * 読み込み中はローダーを表示し、結果は入力値ごとにキャッシュされる
+   * `hasMore: true` を返した場合、リストの最下部までスクロールすると次のページを読み込む
+   * 関数の参照が変わるとキャッシュを破棄して読み込み直すため、`useCallback` などで参照を保ってください
+   */
+  loadOptions?: LoadOptions<T>
+  /**
+   * `loadOptions` で選択肢の読み込みに失敗した時に発火するコールバック関数
+   */
+  onLoadOptionsError?: (error: unknown) => void
+  /**
+   * 入力してから `loadOptions` を呼び出すまでの待ち時間（ミリ秒）
+   */
+  loadOptionsDebounceWait?: number
+  /**
+   * アイテムが入力値に一致するかを判定する関数
+   * ひらがな・カタカナや読み仮名で絞り込む場合は `japaneseMatcher` を指定する
+   */
+  matcher?: ComboBoxMatcher<T>
+  /**
+   * ドロップダウンリストの選択肢の内容を返す関数。省略した場合はラベルを表示する
+   * 選択肢はボタン要素で表示されるため、ボタンなどの操作できる要素は含めないでください
+   */
+  renderOption?: RenderOption<T>
+  /**
+   * 選択済みのアイテムの内容を返す関数。省略した場合はラベルを表示する
+   */
+  renderSelectedItem?: (item: ComboBoxItem<T>) => ReactNode
   /**
    * 選択されているアイテムのリスト
    */
   selectedItems: Array<ComboBoxItem<T> & { deletable?: boolean }>
+  /**
+   * 選択できるアイテムの最大数。上限に達すると、選択されていないアイテムは選択できなくなる
+   */
+  maxSelectedItems?: number
+  /**
+   * `true` のとき、ドロップダウンリストの先頭に入力値に一致するアイテムをすべて選択する選択肢を表示する
+   * `maxSelectedItems` を指定した場合は、上限に達するまでのアイテムを選択する
+   */
+  enableSelectAll?: boolean
+  /**
+   * `true` のとき、選択済みアイテムをすべて削除するボタンを表示する
+   */
+  enableClearAll?: boolean
+  /**
+   * フォーカスされていない間に選択済みアイテムを表示する最大の行数。超えた分は件数のみを表示する
+   */
+  maxSelectedItemLines?: number
+  /**
+   * `true` のとき、選択済みアイテムをドラッグ＆ドロップ、または選択済みアイテムにフォーカスした状態で Alt + 左右キーを押して並び替えられる
+   * 並び替えた結果は `onChangeSelected` で通知される
+   */
+  reorderable?: boolean
   /**
    * input 要素の `name` 属性の値
    */
@@ -50,6 +111,11 @@ type Props<T> = {
    * `true` のとき、 `items` 内に存在しないアイテムを新しく追加できるようになる
    */
   creatable?: boolean
+  /**
+   * 新しく追加するアイテムのラベルを検証する関数。`creatable` が `true` のときに使用する
+   * 正規化したラベルを返すとそのラベルで追加し、理由を返すと追加できない状態で理由を表示する
+   */
+  validateNewItem?: ValidateNewItem
   /**
    * input 要素の `placeholder` 属性の値
    */
@@ -94,8 +160,9 @@ type Props<T> = {
   onChangeInput?: (e: ChangeEvent<HTMLInputElement>) => void
   /**
    * `items` 内に存在しないアイテムが追加されたときに発火するコールバック関数
+   * Promise を返した場合、解決するまで追加の選択肢を操作できない状態で表示する
    */
-  onAdd?: (label: string) => void
+  onAdd?: (label: string) => void | Promise<void>
   /**
    * 選択されているアイテムの削除ボタンがクリックされた時に発火するコールバック関数
    */
@@ -121,22 +188,49 @@ type Props<T> = {
    */
   decorator?: {
     noResultText?: (text: string) => ReactNode
+    loadErrorText?: (text: string) => ReactNode
+    addItemText?: (text: string, label: string) => ReactNode
     destroyButtonIconAlt?: (text: string) => string
     selectedListAriaLabel?: (text: string) => string
+    maxSelectedItemsMessage?: (text: string) => ReactNode
+    selectAllText?: (text: string) => string
+    clearAllButtonIconAlt?: (text: string) => string
+    hiddenItemsText?: (text: string) => string
+    movedItemMessage?: (text: string) => string
   }
 }
 
 type ElementProps<T> = Omit<HTMLAttributes<HTMLDivElement>, keyof Props<T>>
 
 const SELECTED_LIST_ARIA_LABEL = '選択済みアイテム'
+const SELECT_ALL_TEXT = 'すべて選択'
+const SELECT_ALL_MATCHED_TEXT = '一致するアイテムをすべて選択'
+const CLEAR_ALL_BUTTON_TEXT = 'すべて削除'
+
+const executeDecorator = <R,>(
+  defaultText: string,
+  decorator: ((text: string) => R) | undefined,
+): string | R => (decorator ? decorator(defaultText) : defaultText)
 
 export function MultiComboBox<T>({
-  items,
+  items = [],
+  loadOptions,
+  loadOptionsDebounceWait,
+  onLoadOptionsError,
+  matcher,
+  renderOption,
+  renderSelectedItem,
   selectedItems,
+  maxSelectedItems,
+  enableSelectAll = false,
+  enableClearAll = false,
+  maxSelectedItemLines,
+  reorderable = false,
   name,
   disabled = false,
   error = false,
   creatable = false,
+  validateNewItem,
   placeholder = '',
   dropdownHelpMessage,
   isLoading,
@@ -167,11 +261,33 @@ export function MultiComboBox<T>({
   const [uncontrolledInputValue, setUncontrolledInputValue] = useState('')
   const inputValue = isInputControlled ? controlledInputValue : uncontrolledInputValue
   const [isComposing, setIsComposing] = useState(false)
+  const asyncOptions = useAsyncOptions({
+    loadOptions,
+    query: inputValue ?? '',
+    isExpanded: isFocused,
+    debounceWait: loadOptionsDebounceWait,
+    onError: onLoadOptionsError,
+  })
+  const isMaxReached = maxSelectedItems !== undefined && selectedItems.length >= maxSelectedItems
+  const selectableItems = useMemo(() => {
+    const sourceItems = loadOptions ? asyncOptions.items : items
+    if (!isMaxReached) {
+      return sourceItems
+    }
+    // 上限に達した場合は、選択済みのアイテムの選択解除のみできるようにする
+    return sourceItems.map((item) =>
+      isSelectedItem(selectedItems, item) ? item : { ...item, disabled: true },
+    )
+  }, [asyncOptions.items, isMaxReached, items, loadOptions, selectedItems])
   const { options } = useOptions({
-    items,
+    items: selectableItems,
     selected: selectedItems,
-    creatable,
+    creatable: creatable && !isMaxReached,
     inputValue,
+    matcher,
+    validateNewItem,
+    // 非同期に読み込んだ選択肢は、読み込み時に絞り込まれているものとして扱う
+    isFilteringDisabled: !!loadOptions,
   })
   const handleDelete = useCallback(
     (item: ComboBoxItem<T>) => {
@@ -202,6 +318,41 @@ export function MultiComboBox<T>({
     [handleDelete, onChangeSelected, onSelect, selectedItems],
   )
 
+  const matchedSelectableItems = useMemo(
+    () =>
+      enableSelectAll
+        ? getSelectableItems(
+            options.filter(({ isNew }) => !isNew).map(({ item }) => item),
+            selectedItems,
+            maxSelectedItems,
+          )
+        : [],
+    [enableSelectAll, maxSelectedItems, options, selectedItems],
+  )
+  const handleSelectAll = useCallback(() => {
+    matchedSelectableItems.forEach((item) => onSelect && onSelect(item))
+    onChangeSelected && onChangeSelected(selectedItems.concat(matchedSelectableItems))
+  }, [matchedSelectableItems, onChangeSelected, onSelect, selectedItems])
+  const deletableItems = useMemo(
+    () => selectedItems.filter(({ deletable }) => deletable !== false),
+    [selectedItems],
+  )
+  const handleClearAll = useCallback(() => {
+    deletableItems.forEach((item) => onDelete && onDelete(item))
+    onChangeSelected &&
+      onChangeSelected(selectedItems.filter(({ deletable }) => deletable === false))
+  }, [deletableItems, onChangeSelected, onDelete, selectedItems])
+  const statusMessage = useMemo(
+    () =>
+      maxSelectedItems === undefined
+        ? undefined
+        : executeDecorator(
+            `${maxSelectedItems}件まで選択できます（${selectedItems.length}件選択中）`,
+            decorator?.maxSelectedItemsMessage,
+          ),
+    [decorator?.maxSelectedItemsMessage, maxSelectedItems, selectedItems.length],
+  )
+
   const {
     renderListBox,
     activeOption,
@@ -211,18 +362,31 @@ export function MultiComboBox<T>({
   } = useListBox({
     options,
     dropdownHelpMessage,
+    statusMessage,
     dropdownWidth,
     onAdd,
     onSelect: handleSelect,
+    selectAllText: executeDecorator(
+      inputValue ? SELECT_ALL_MATCHED_TEXT : SELECT_ALL_TEXT,
+      decorator?.selectAllText,
+    ),
+    onSelectAll: matchedSelectableItems.length > 0 ? handleSelectAll : undefined,
     isExpanded: isFocused,
-    isLoading,
+    isLoading: isLoading || asyncOptions.isLoading,
+    isLoadingMore: asyncOptions.isLoadingMore,
+    hasMore: asyncOptions.hasMore,
+    onLoadMore: asyncOptions.loadMore,
+    hasLoadError: asyncOptions.hasError,
+    renderOption,
     triggerRef: outerRef,
     decorator,
   })
 
   const {
     deletionButtonRefs,
+    itemRefs,
     inputRef,
+    focusDeletionButton,
     focusPrevDeletionButton,
     focusNextDeletionButton,
     resetDeletionButtonFocus,
@@ -247,15 +411,41 @@ export function MultiComboBox<T>({
 
   useOuterClick([outerRef, listBoxRef], blur)
 
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null)
+  const [movedItemMessage, setMovedItemMessage] = useState('')
+  // キーボードで並び替えた後に、移動したアイテムの削除ボタンにフォーカスを戻すための位置
+  const movedIndexRef = useRef<number | null>(null)
+  const handleMoveItem = useCallback(
+    (from: number, to: number) => {
+      const moved = moveItem(selectedItems, from, to)
+      if (moved === selectedItems) {
+        return
+      }
+      setMovedItemMessage(
+        executeDecorator(
+          `${selectedItems[from].label}を${to + 1}番目に移動しました`,
+          decorator?.movedItemMessage,
+        ),
+      )
+      onChangeSelected && onChangeSelected(moved)
+    },
+    [decorator?.movedItemMessage, onChangeSelected, selectedItems],
+  )
+
   useLayoutEffect(() => {
     if (!isInputControlled) {
       setUncontrolledInputValue('')
     }
 
+    if (movedIndexRef.current !== null) {
+      focusDeletionButton(movedIndexRef.current)
+      movedIndexRef.current = null
+      return
+    }
     if (isFocused && inputRef.current) {
       inputRef.current.focus()
     }
-  }, [inputRef, isFocused, isInputControlled, selectedItems])
+  }, [focusDeletionButton, inputRef, isFocused, isInputControlled, selectedItems])
 
   const handleKeyDown = useCallback(
     (e: KeyboardEvent<HTMLDivElement>) => {
@@ -294,6 +484,26 @@ export function MultiComboBox<T>({
       resetDeletionButtonFocus,
     ],
   )
+  // 選択済みアイテムまたはその削除ボタンにフォーカスした状態で、Alt + 左右キーで並び替える
+  const handleItemKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLLIElement>, index: number) => {
+      if (
+        !e.altKey ||
+        !(e.key === 'Left' || e.key === 'ArrowLeft' || e.key === 'Right' || e.key === 'ArrowRight')
+      ) {
+        return
+      }
+      // ブラウザの「戻る」「進む」が実行されないようにする
+      e.preventDefault()
+      e.stopPropagation()
+      const to = index + (e.key === 'Left' || e.key === 'ArrowLeft' ? -1 : 1)
+      if (to >= 0 && to < selectedItems.length) {
+        movedIndexRef.current = to
+        handleMoveItem(index, to)
+      }
+    },
+    [handleMoveItem, selectedItems.length],
+  )
 
   const handleInputKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Down' || e.key === 'ArrowDown' || e.key === 'Up' || e.key === 'ArrowUp') {
@@ -319,6 +529,14 @@ export function MultiComboBox<T>({
     .filter((text) => text !== false && text !== '')
     .join(' ')
   const selectedListId = useId()
+  const selectedListRef = useRef<HTMLUListElement>(null)
+  const { visibleCount, hiddenCount } = useCollapsedSelectedItems({
+    selectedListRef,
+    selectedItems,
+    maxLines: maxSelectedItemLines,
+    isCollapsed: !isFocused,
+  })
+  const needsClearAllButton = enableClearAll && !disabled && deletableItems.length > 0
 
   return (
     <ComboBoxContext.Provider value={contextValue}>
@@ -331,6 +549,7 @@ export function MultiComboBox<T>({
         onClick={(e) => {
           if (
             !hasParentElementByClassName(e.target as HTMLElement, classNames.deleteButton) &&
+            !hasParentElementByClassName(e.target as HTMLElement, classNames.clearAllButton) &&
             !disabled &&
             !isFocused
           ) {
@@ -343,26 +562,70 @@ export function MultiComboBox<T>({
         <InputArea themes={theme}>
           <SelectedList
             id={selectedListId}
+            ref={selectedListRef}
             aria-label={
               decorator?.selectedListAriaLabel
                 ? decorator.selectedListAriaLabel(SELECTED_LIST_ARIA_LABEL)
                 : SELECTED_LIST_ARIA_LABEL
             }
+            themes={theme}
             className={classNames.selectedList}
           >
-            {selectedItems.map((selectedItem, i) => (
-              <li key={`${selectedItem.label}-${selectedItem.value}`}>
+            {selectedItems.slice(0, visibleCount).map((selectedItem, i) => (
+              <li
+                {...(reorderable &&
+                  !disabled && {
+                    draggable: true,
+                    onDragStart: (e: DragEvent<HTMLLIElement>) => {
+                      e.dataTransfer.effectAllowed = 'move'
+                      // Firefox ではデータを設定しないとドラッグが開始されない
+                      e.dataTransfer.setData('text/plain', String(i))
+                      setDraggingIndex(i)
+                    },
+                    onDragOver: (e: DragEvent<HTMLLIElement>) => {
+                      if (draggingIndex !== null) {
+                        e.preventDefault()
+                      }
+                    },
+                    onDrop: (e: DragEvent<HTMLLIElement>) => {
+                      e.preventDefault()
+                      if (draggingIndex !== null) {
+                        handleMoveItem(draggingIndex, i)
+                      }
+                      setDraggingIndex(null)
+                    },
+                    onDragEnd: () => setDraggingIndex(null),
+                    onKeyDown: (e: KeyboardEvent<HTMLLIElement>) => handleItemKeyDown(e, i),
+                    // 削除ボタンがないアイテムも、キーボードで並び替えられるようにフォーカス可能にする
+                    tabIndex: selectedItem.deletable === false ? -1 : undefined,
+                  })}
+                ref={itemRefs[i]}
+                key={`${selectedItem.label}-${selectedItem.value}`}
+                className={draggingIndex === i ? 'dragging' : undefined}
+              >
                 <MultiSelectedItem
                   item={selectedItem}
                   disabled={disabled}
                   onDelete={handleDelete}
                   enableEllipsis={selectedItemEllipsis}
                   buttonRef={deletionButtonRefs[i]}
+                  renderItem={renderSelectedItem}
                   decorator={decorator}
                 />
               </li>
             ))}
+            {hiddenCount > 0 && (
+              <li>
+                <HiddenItems themes={theme} className={classNames.hiddenItems}>
+                  {executeDecorator(`他${hiddenCount}件`, decorator?.hiddenItemsText)}
+                </HiddenItems>
+              </li>
+            )}
           </SelectedList>
+          {/* 並び替えたことをスクリーンリーダーに通知する */}
+          {reorderable && (
+            <MovedItemMessage aria-live="polite">{movedItemMessage}</MovedItemMessage>
+          )}
 
           <InputWrapper className={isFocused ? undefined : 'hidden'}>
             <Input
@@ -409,6 +672,20 @@ export function MultiComboBox<T>({
           )}
         </InputArea>
 
+        {needsClearAllButton && (
+          <ClearAllButton
+            type="button"
+            themes={theme}
+            onClick={handleClearAll}
+            className={classNames.clearAllButton}
+          >
+            <FaTimesCircleIcon
+              color={theme.color.TEXT_BLACK}
+              alt={executeDecorator(CLEAR_ALL_BUTTON_TEXT, decorator?.clearAllButtonIconAlt)}
+            />
+          </ClearAllButton>
+        )}
+
         <Suffix themes={theme} disabled={disabled}>
           <FaCaretDownIcon color={caretIconColor} />
         </Suffix>
@@ -464,13 +741,56 @@ const InputArea = styled.div<{ themes: Theme }>`
     overflow-y: auto;
   `}
 `
-const SelectedList = styled.ul`
+const SelectedList = styled.ul<{ themes: Theme }>`
   display: contents;
   list-style: none;
   li {
     /** 選択済みアイテムのラベルの省略表示のために幅を計算させる */
     min-width: 0;
   }
+  li[tabindex='-1']:focus-visible {
+    border-radius: 1em;
+    ${({ themes }) => themes.shadow.focusIndicatorStyles}
+  }
+  li[draggable='true'] {
+    cursor: grab;
+  }
+  li.dragging {
+    opacity: 0.5;
+  }
+`
+const MovedItemMessage = styled.span`
+  ${VISUALLY_HIDDEN_STYLE}
+`
+const HiddenItems = styled.span<{ themes: Theme }>`
+  ${({ themes: { border, color, fontSize, spacingByChar } }) => css`
+    display: block;
+    border-radius: 1em;
+    border: ${border.shorthand};
+    padding: ${spacingByChar(0.25)} calc(${spacingByChar(0.5)} - ${border.lineWidth});
+    background-color: ${color.COLUMN};
+    color: ${color.TEXT_BLACK};
+    font-size: ${fontSize.S};
+    white-space: nowrap;
+  `}
+`
+const ClearAllButton = styled(UnstyledButton)<{ themes: Theme }>`
+  ${({ themes: { shadow, spacingByChar } }) => css`
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 0 ${spacingByChar(0.5)};
+    cursor: pointer;
+
+    &:focus-visible {
+      box-shadow: unset;
+    }
+
+    &:focus-visible > svg {
+      border-radius: 50%;
+      ${shadow.focusIndicatorStyles};
+    }
+  `}
 `
 const InputWrapper = styled.div`
   &.hidden {
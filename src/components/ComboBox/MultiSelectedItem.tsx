@@ -1,4 +1,4 @@
-import React, { RefObject, useEffect, useRef, useState } from 'react'
+import React, { ReactNode, RefObject, useEffect, useRef, useState } from 'react'
 import styled, { css } from 'styled-components'
 
 import { Theme, useTheme } from '../../hooks/useTheme'
@@ -15,6 +15,7 @@ export type Props<T> = {
   onDelete: (item: ComboBoxItem<T>) => void
   enableEllipsis?: boolean
   buttonRef: RefObject<HTMLButtonElement>
+  renderItem?: (item: ComboBoxItem<T>) => ReactNode
   decorator?: {
     destroyButtonIconAlt?: (text: string) => string
   }
@@ -28,6 +29,7 @@ export function MultiSelectedItem<T>({
   onDelete,
   enableEllipsis,
   buttonRef,
+  renderItem,
   decorator,
 }: Props<T>) {
   const theme = useTheme()
@@ -56,7 +58,7 @@ export function MultiSelectedItem<T>({
           className={classNames.selectedItemLabel}
           ref={labelRef}
         >
-          {item.label}
+          {renderItem ? renderItem(item) : item.label}
         </ItemLabel>
 
         {deletable && (
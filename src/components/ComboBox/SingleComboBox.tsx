@@ -18,16 +18,42 @@ import { FaCaretDownIcon, FaTimesCircleIcon } from '../Icon'
 import { Input } from '../Input'
 
 import { ComboBoxContext } from './ComboBoxContext'
-import { ComboBoxItem } from './types'
+import { ComboBoxItem, ComboBoxMatcher, RenderOption, ValidateNewItem } from './types'
+import { LoadOptions, useAsyncOptions } from './useAsyncOptions'
 import { useSingleComboBoxClassNames } from './useClassNames'
 import { useListBox } from './useListBox'
 import { useOptions } from './useOptions'
 
 type Props<T> = {
   /**
-   * 選択可能なアイテムのリスト
+   * 選択可能なアイテムのリスト。`loadOptions` を指定した場合は不要
    */
-  items: Array<ComboBoxItem<T>>
+  items?: Array<ComboBoxItem<T>>
+  /**
+   * 入力値に応じて選択肢を非同期に読み込む関数。指定した場合は `items` の代わりに読み込んだ選択肢を表示する
+   * 読み込み中はローダーを表示し、結果は入力値ごとにキャッシュされる
+   * `hasMore: true` を返した場合、リストの最下部までスクロールすると次のページを読み込む
+   * 関数の参照が変わるとキャッシュを破棄して読み込み直すため、`useCallback` などで参照を保ってください
+   */
+  loadOptions?: LoadOptions<T>
+  /**
+   * `loadOptions` で選択肢の読み込みに失敗した時に発火するコールバック関数
+   */
+  onLoadOptionsError?: (error: unknown) => void
+  /**
+   * 入力してから `loadOptions` を呼び出すまでの待ち時間（ミリ秒）
+   */
+  loadOptionsDebounceWait?: number
+  /**
+   * アイテムが入力値に一致するかを判定する関数
+   * ひらがな・カタカナや読み仮名で絞り込む場合は `japaneseMatcher` を指定する
+   */
+  matcher?: ComboBoxMatcher<T>
+  /**
+   * ドロップダウンリストの選択肢の内容を返す関数。省略した場合はラベルを表示する
+   * 選択肢はボタン要素で表示されるため、ボタンなどの操作できる要素は含めないでください
+   */
+  renderOption?: RenderOption<T>
   /**
    * 選択されているアイテム
    */
@@ -56,6 +82,11 @@ type Props<T> = {
    * `true` のとき、 `items` 内に存在しないアイテムを新しく追加できるようになる
    */
   creatable?: boolean
+  /**
+   * 新しく追加するアイテムのラベルを検証する関数。`creatable` が `true` のときに使用する
+   * 正規化したラベルを返すとそのラベルで追加し、理由を返すと追加できない状態で理由を表示する
+   */
+  validateNewItem?: ValidateNewItem
   /**
    * input 要素の `placeholder` 属性の値
    */
@@ -91,8 +122,9 @@ type Props<T> = {
   onChangeInput?: (e: ChangeEvent<HTMLInputElement>) => void
   /**
    * `items` 内に存在しないアイテムが追加されたときに発火するコールバック関数
+   * Promise を返した場合、解決するまで追加の選択肢を操作できない状態で表示する
    */
-  onAdd?: (label: string) => void
+  onAdd?: (label: string) => void | Promise<void>
   /**
    * アイテムが選択された時に発火するコールバック関数
    */
@@ -115,6 +147,8 @@ type Props<T> = {
    */
   decorator?: {
     noResultText?: (text: string) => ReactNode
+    loadErrorText?: (text: string) => ReactNode
+    addItemText?: (text: string, label: string) => ReactNode
     destroyButtonIconAlt?: (text: string) => string
   }
 }
@@ -124,7 +158,12 @@ type ElementProps<T> = Omit<HTMLAttributes<HTMLDivElement>, keyof Props<T>>
 const DESTROY_BUTTON_TEXT = '削除'
 
 export function SingleComboBox<T>({
-  items,
+  items = [],
+  loadOptions,
+  loadOptionsDebounceWait,
+  onLoadOptionsError,
+  matcher,
+  renderOption,
   selectedItem,
   defaultItem,
   name,
@@ -132,6 +171,7 @@ export function SingleComboBox<T>({
   prefix,
   error = false,
   creatable = false,
+  validateNewItem,
   placeholder = '',
   dropdownHelpMessage,
   isLoading,
@@ -159,12 +199,23 @@ export function SingleComboBox<T>({
   const [isComposing, setIsComposing] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
 
+  const asyncOptions = useAsyncOptions({
+    loadOptions,
+    // 選択済みのアイテムのラベルが表示されている間は、絞り込まずに読み込む
+    query: isEditing ? inputValue : '',
+    isExpanded,
+    debounceWait: loadOptionsDebounceWait,
+    onError: onLoadOptionsError,
+  })
   const { options } = useOptions({
-    items,
+    items: loadOptions ? asyncOptions.items : items,
     selected: selectedItem,
     creatable,
     inputValue,
-    isFilteringDisabled: !isEditing,
+    matcher,
+    validateNewItem,
+    // 非同期に読み込んだ選択肢は、読み込み時に絞り込まれているものとして扱う
+    isFilteringDisabled: !isEditing || !!loadOptions,
   })
   const {
     renderListBox,
@@ -191,7 +242,12 @@ export function SingleComboBox<T>({
       [onChangeSelected, onSelect],
     ),
     isExpanded,
-    isLoading,
+    isLoading: isLoading || asyncOptions.isLoading,
+    isLoadingMore: asyncOptions.isLoadingMore,
+    hasMore: asyncOptions.hasMore,
+    onLoadMore: asyncOptions.loadMore,
+    hasLoadError: asyncOptions.hasError,
+    renderOption,
     triggerRef: outerRef,
     decorator,
   })
@@ -0,0 +1,105 @@
+import {
+  convertJapaneseMatchableString,
+  defaultMatcher,
+  getListBoxRows,
+  groupOptions,
+  japaneseMatcher,
+  sortOptionsByGroup,
+} from '../comboBoxHelper'
+
+const createOption = (label: string, group?: string) => ({
+  id: label,
+  selected: false,
+  isNew: false,
+  item: { label, value: label, group },
+})
+
+describe('comboBoxHelper', () => {
+  describe('sortOptionsByGroup', () => {
+    it('同じグループの選択肢が最初に現れた位置にまとめられること', () => {
+      const options = [
+        createOption('a', 'x'),
+        createOption('b'),
+        createOption('c', 'y'),
+        createOption('d', 'x'),
+        createOption('e'),
+      ]
+      expect(sortOptionsByGroup(options).map(({ id }) => id)).toEqual(['a', 'd', 'b', 'e', 'c'])
+    })
+
+    it('グループがない場合は並び替えないこと', () => {
+      const options = [createOption('a'), createOption('b')]
+      expect(sortOptionsByGroup(options)).toBe(options)
+    })
+  })
+
+  describe('groupOptions', () => {
+    it('隣り合う同じグループの選択肢がまとめられること', () => {
+      const options = [createOption('new'), createOption('a', 'x'), createOption('b', 'x')]
+      expect(
+        groupOptions(options).map(({ group, options: grouped }) => [
+          group,
+          grouped.map(({ id }) => id),
+        ]),
+      ).toEqual([
+        [undefined, ['new']],
+        ['x', ['a', 'b']],
+      ])
+    })
+  })
+
+  describe('getListBoxRows', () => {
+    it('グループの先頭に見出しの行が挿入されること', () => {
+      const options = [createOption('new'), createOption('a', 'x'), createOption('b', 'x')]
+      expect(
+        getListBoxRows(options).map((row) =>
+          row.type === 'groupLabel' ? `label:${row.group}` : row.option.id,
+        ),
+      ).toEqual(['new', 'label:x', 'a', 'b'])
+    })
+  })
+
+  describe('defaultMatcher', () => {
+    it('全角・半角の違いを無視して一致した範囲を返すこと', () => {
+      expect(defaultMatcher({ label: 'ＳｍａｒｔＨＲ', value: '1' }, 'smart')).toEqual({
+        start: 0,
+        end: 5,
+      })
+      expect(defaultMatcher({ label: 'SmartHR', value: '1' }, 'x')).toBe(false)
+    })
+  })
+
+  describe('convertJapaneseMatchableString', () => {
+    it('カタカナと半角カナをひらがなに変換し、変換前の範囲を返すこと', () => {
+      expect(convertJapaneseMatchableString('ヤマダ').text).toBe('やまだ')
+      const { text, ranges } = convertJapaneseMatchableString('ﾔﾏﾀﾞA')
+      expect(text).toBe('やまだa')
+      expect(ranges).toEqual([
+        { start: 0, end: 1 },
+        { start: 1, end: 2 },
+        { start: 2, end: 4 },
+        { start: 4, end: 5 },
+      ])
+    })
+  })
+
+  describe('japaneseMatcher', () => {
+    it('ひらがな・カタカナの違いを無視して一致した範囲を返すこと', () => {
+      expect(japaneseMatcher({ label: 'やまだ たろう', value: '1' }, 'ヤマダ')).toEqual({
+        start: 0,
+        end: 3,
+      })
+      expect(japaneseMatcher({ label: 'ﾔﾏﾀﾞ ﾀﾛｳ', value: '1' }, 'だ')).toEqual({
+        start: 2,
+        end: 4,
+      })
+    })
+
+    it('読み仮名でも一致を判定すること', () => {
+      const item = { label: '山田 太郎', value: '1', reading: 'ヤマダ タロウ' }
+      expect(japaneseMatcher(item, 'やまだ')).toBe(true)
+      expect(japaneseMatcher(item, '山田')).toEqual({ start: 0, end: 2 })
+      expect(japaneseMatcher(item, 'すずき')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,41 @@
+import { countItemsWithinLines, getSelectableItems, moveItem } from '../multiComboBoxHelper'
+
+const createItem = (label: string, disabled?: boolean) => ({ label, value: label, disabled })
+
+describe('multiComboBoxHelper', () => {
+  describe('getSelectableItems', () => {
+    const items = [createItem('a'), createItem('b', true), createItem('c'), createItem('d')]
+
+    it('選択済みと disabled のアイテムを除いて返すこと', () => {
+      expect(getSelectableItems(items, [createItem('a')]).map(({ label }) => label)).toEqual([
+        'c',
+        'd',
+      ])
+    })
+
+    it('上限を超えない数だけ返すこと', () => {
+      expect(getSelectableItems(items, [createItem('a')], 2).map(({ label }) => label)).toEqual([
+        'c',
+      ])
+      expect(getSelectableItems(items, [createItem('a'), createItem('c')], 2)).toEqual([])
+    })
+  })
+
+  describe('moveItem', () => {
+    it('指定した位置にアイテムを移動すること', () => {
+      const items = ['a', 'b', 'c', 'd']
+      expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a', 'd'])
+      expect(moveItem(items, 3, 1)).toEqual(['a', 'd', 'b', 'c'])
+      expect(moveItem(items, 0, 4)).toBe(items)
+    })
+  })
+
+  describe('countItemsWithinLines', () => {
+    it('指定した行数に収まる要素の数を返すこと', () => {
+      const tops = [0, 0, 0, 24, 24, 48, 48]
+      expect(countItemsWithinLines(tops, 1)).toBe(3)
+      expect(countItemsWithinLines(tops, 2)).toBe(5)
+      expect(countItemsWithinLines(tops, 3)).toBe(7)
+    })
+  })
+})
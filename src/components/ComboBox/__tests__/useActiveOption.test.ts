@@ -90,4 +90,36 @@ describe('useActiveOption', () => {
       expect(result.current.activeOption).toEqual(initialProps.options[3])
     })
   })
+
+  describe('moveActivePositionToFirst / moveActivePositionToLast', () => {
+    it('先頭と末尾の option に移動できること', () => {
+      act(() => result.current.moveActivePositionToLast())
+      expect(result.current.activeOption).toEqual(initialProps.options[3])
+
+      act(() => result.current.moveActivePositionToFirst())
+      expect(result.current.activeOption).toEqual(initialProps.options[0])
+    })
+  })
+
+  describe('moveActivePositionBy', () => {
+    it('指定した数だけ移動し、端を超えてループしないこと', () => {
+      act(() => result.current.moveActivePositionBy(10))
+      expect(result.current.activeOption).toEqual(initialProps.options[0])
+
+      act(() => result.current.moveActivePositionBy(10))
+      expect(result.current.activeOption).toEqual(initialProps.options[3])
+
+      act(() => result.current.moveActivePositionBy(-10))
+      expect(result.current.activeOption).toEqual(initialProps.options[0])
+    })
+
+    it('移動先が disabled の場合は移動方向の先の option に移動すること', () => {
+      act(() => result.current.setActiveOption(initialProps.options[0]))
+      act(() => result.current.moveActivePositionBy(2))
+      expect(result.current.activeOption).toEqual(initialProps.options[3])
+
+      act(() => result.current.moveActivePositionBy(-1))
+      expect(result.current.activeOption).toEqual(initialProps.options[1])
+    })
+  })
 })
@@ -0,0 +1,193 @@
+import { act, renderHook } from '@testing-library/react-hooks'
+
+import { ComboBoxItem } from '../types'
+import { LoadOptions, useAsyncOptions } from '../useAsyncOptions'
+
+const createItems = (query: string, page: number): Array<ComboBoxItem<unknown>> =>
+  [1, 2].map((i) => ({ label: `${query}-${page}-${i}`, value: `${query}-${page}-${i}` }))
+
+describe('useAsyncOptions', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  const render = (loadOptions: LoadOptions<unknown>, query = '') =>
+    renderHook((props) => useAsyncOptions(props), {
+      initialProps: { loadOptions, query, isExpanded: true, debounceWait: 300 },
+    })
+
+  it('選択肢を読み込み、読み込み中は isLoading が true になること', async () => {
+    const loadOptions = jest.fn(async (query: string, { page }: { page: number }) =>
+      createItems(query, page),
+    )
+    const { result, waitForNextUpdate } = render(loadOptions)
+
+    expect(result.current.isLoading).toBe(true)
+    await waitForNextUpdate()
+
+    expect(loadOptions).toHaveBeenCalledTimes(1)
+    expect(loadOptions.mock.calls[0][0]).toBe('')
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.items.map(({ label }) => label)).toEqual(['-1-1', '-1-2'])
+  })
+
+  it('入力が止まるまで読み込みを待つこと', async () => {
+    const loadOptions = jest.fn(async (query: string, { page }: { page: number }) =>
+      createItems(query, page),
+    )
+    const { result, rerender, waitForNextUpdate } = render(loadOptions)
+    await waitForNextUpdate()
+
+    const props = { loadOptions, isExpanded: true, debounceWait: 300 }
+    rerender({ ...props, query: 'a' })
+    act(() => {
+      jest.advanceTimersByTime(100)
+    })
+    rerender({ ...props, query: 'ab' })
+    expect(result.current.isLoading).toBe(true)
+    act(() => {
+      jest.advanceTimersByTime(300)
+    })
+    await waitForNextUpdate()
+
+    expect(loadOptions).toHaveBeenCalledTimes(2)
+    expect(loadOptions.mock.calls[1][0]).toBe('ab')
+    expect(result.current.items.map(({ label }) => label)).toEqual(['ab-1-1', 'ab-1-2'])
+  })
+
+  it('入力値が変わったら読み込み中のリクエストを中断し、結果をキャッシュすること', async () => {
+    const signals: AbortSignal[] = []
+    const loadOptions = jest.fn(
+      (query: string, { signal, page }: { signal: AbortSignal; page: number }) => {
+        signals.push(signal)
+        return new Promise<Array<ComboBoxItem<unknown>>>((resolve) => {
+          setTimeout(() => resolve(createItems(query, page)), 1000)
+        })
+      },
+    )
+    const { result, rerender, waitForNextUpdate } = render(loadOptions)
+    const props = { loadOptions, isExpanded: true, debounceWait: 300 }
+
+    rerender({ ...props, query: 'a' })
+    act(() => {
+      jest.advanceTimersByTime(300)
+    })
+    expect(signals[0].aborted).toBe(true)
+
+    act(() => {
+      jest.advanceTimersByTime(1000)
+    })
+    await waitForNextUpdate()
+    expect(result.current.items.map(({ label }) => label)).toEqual(['a-1-1', 'a-1-2'])
+
+    rerender({ ...props, query: 'ab' })
+    act(() => {
+      jest.advanceTimersByTime(300)
+    })
+    act(() => {
+      jest.advanceTimersByTime(1000)
+    })
+    await waitForNextUpdate()
+    expect(loadOptions).toHaveBeenCalledTimes(3)
+
+    // キャッシュがある入力値では待たずに表示し、再度読み込まない
+    rerender({ ...props, query: 'a' })
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.items.map(({ label }) => label)).toEqual(['a-1-1', 'a-1-2'])
+    expect(loadOptions).toHaveBeenCalledTimes(3)
+  })
+
+  it('次のページを読み込めること', async () => {
+    const loadOptions = jest.fn(async (query: string, { page }: { page: number }) => ({
+      items: createItems(query, page),
+      hasMore: page < 2,
+    }))
+    const { result, waitForNextUpdate } = render(loadOptions)
+    await waitForNextUpdate()
+    expect(result.current.hasMore).toBe(true)
+
+    act(() => result.current.loadMore())
+    expect(result.current.isLoadingMore).toBe(true)
+    await waitForNextUpdate()
+
+    expect(loadOptions.mock.calls[1][1].page).toBe(2)
+    expect(result.current.hasMore).toBe(false)
+    expect(result.current.items.map(({ label }) => label)).toEqual(['-1-1', '-1-2', '-2-1', '-2-2'])
+  })
+
+  it('読み込む関数が変わったらキャッシュを破棄して読み込み直すこと', async () => {
+    const loadOptions = jest.fn(async (query: string, { page }: { page: number }) =>
+      createItems(query, page),
+    )
+    const { result, rerender, waitForNextUpdate } = render(loadOptions)
+    await waitForNextUpdate()
+
+    const otherLoadOptions = jest.fn(async (query: string, { page }: { page: number }) =>
+      createItems(`other${query}`, page),
+    )
+    rerender({ loadOptions: otherLoadOptions, query: '', isExpanded: true, debounceWait: 300 })
+    await waitForNextUpdate()
+
+    expect(otherLoadOptions).toHaveBeenCalledTimes(1)
+    expect(result.current.items.map(({ label }) => label)).toEqual(['other-1-1', 'other-1-2'])
+  })
+
+  it('キャッシュする入力値の数に上限があること', async () => {
+    const loadOptions = jest.fn(async (query: string, { page }: { page: number }) =>
+      createItems(query, page),
+    )
+    const { rerender, waitForNextUpdate } = render(loadOptions)
+    await waitForNextUpdate()
+
+    const props = { loadOptions, isExpanded: true, debounceWait: 300 }
+    for (let i = 1; i <= 50; i++) {
+      rerender({ ...props, query: `q${i}` })
+      act(() => {
+        jest.advanceTimersByTime(300)
+      })
+      // eslint-disable-next-line no-await-in-loop
+      await waitForNextUpdate()
+    }
+    expect(loadOptions).toHaveBeenCalledTimes(51)
+
+    // 最も長く使われていない入力値は破棄されているため読み込み直す
+    rerender({ ...props, query: '' })
+    act(() => {
+      jest.advanceTimersByTime(300)
+    })
+    await waitForNextUpdate()
+    expect(loadOptions).toHaveBeenCalledTimes(52)
+
+    // 最近の入力値はキャッシュから表示する
+    rerender({ ...props, query: 'q50' })
+    expect(loadOptions).toHaveBeenCalledTimes(52)
+  })
+
+  it('読み込みに失敗したらエラーの状態になり、onError が呼ばれること', async () => {
+    const error = new Error('failed')
+    const loadOptions = jest.fn(async () => {
+      throw error
+    })
+    const onError = jest.fn()
+    const { result, waitForNextUpdate } = renderHook((props) => useAsyncOptions(props), {
+      initialProps: { loadOptions, query: '', isExpanded: true, onError },
+    })
+    await waitForNextUpdate()
+
+    expect(result.current.hasError).toBe(true)
+    expect(result.current.hasMore).toBe(false)
+    expect(onError).toHaveBeenCalledWith(error)
+  })
+
+  it('閉じている間は読み込まないこと', () => {
+    const loadOptions = jest.fn(async () => [])
+    renderHook((props) => useAsyncOptions(props), {
+      initialProps: { loadOptions, query: '', isExpanded: false },
+    })
+
+    expect(loadOptions).not.toHaveBeenCalled()
+  })
+})
@@ -80,5 +80,56 @@ describe('useOptions', () => {
       const options3 = result.current.options
       expect(options3.length).toBe(0)
     })
+
+    it('validateNewItem で新規追加オプションのラベルを正規化、または追加できない理由を設定できること', () => {
+      const validateNewItem = (label: string) =>
+        label.trim().length < 3 ? { error: '3文字以上で入力してください' } : { label: label.trim() }
+      const initialProps = {
+        items: [{ label: 'label1', value: 'value1' }],
+        selected: null,
+        creatable: true,
+        inputValue: ' new_label ',
+        validateNewItem,
+      }
+      const { result, rerender } = renderHook((props) => useOptions(props), { initialProps })
+
+      expect(result.current.options[0].isNew).toBeTruthy()
+      expect(result.current.options[0].item).toEqual({ label: 'new_label', value: 'new_label' })
+      expect(result.current.options[0].error).toBeUndefined()
+
+      rerender({ ...initialProps, inputValue: 'ab' })
+      // 追加できない理由を読み上げられるよう、選択肢は無効にしない
+      expect(result.current.options[0].item.disabled).toBeFalsy()
+      expect(result.current.options[0].error).toBe('3文字以上で入力してください')
+
+      // 正規化したラベルのアイテムが既にある場合は追加できない
+      rerender({ ...initialProps, inputValue: ' label1 ' })
+      expect(result.current.options.some(({ isNew }) => isNew)).toBeFalsy()
+    })
+
+    it('同じグループの options がまとめられ、絞り込みで該当しないグループがなくなること', () => {
+      const initialProps = {
+        items: [
+          { label: '山田', value: '1', group: '開発部' },
+          { label: '鈴木', value: '2', group: '営業部' },
+          { label: '佐藤', value: '3', group: '開発部' },
+          { label: '田中', value: '4' },
+        ],
+        selected: null,
+        creatable: false,
+        inputValue: '',
+      }
+      const { result, rerender } = renderHook((props) => useOptions(props), { initialProps })
+
+      expect(result.current.options.map(({ item }) => item.label)).toEqual([
+        '山田',
+        '佐藤',
+        '鈴木',
+        '田中',
+      ])
+
+      rerender({ ...initialProps, inputValue: '鈴' })
+      expect(result.current.options.map(({ item }) => item.group)).toEqual(['営業部'])
+    })
   })
 })
@@ -1,3 +1,5 @@
+import { ComboBoxItem, ComboBoxOption, MatchedRange } from './types'
+
 export function convertMatchableString(original: string) {
   return (
     original
@@ -13,3 +15,109 @@ export function convertMatchableString(original: string) {
       .toLowerCase()
   )
 }
+
+/**
+ * 全角・半角や一部の記号の違いを無視して、ラベルに入力値が含まれるかを判定する
+ */
+export function defaultMatcher<T>({ label }: ComboBoxItem<T>, inputValue: string) {
+  // convertMatchableString は 1 文字を 1 文字に変換するため、変換後の位置をそのまま使える
+  const start = convertMatchableString(label).indexOf(convertMatchableString(inputValue))
+  return start === -1 ? false : { start, end: start + inputValue.length }
+}
+
+const toHiragana = (str: string) =>
+  str.replace(/[\u30a1-\u30f6]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+
+/**
+ * ひらがな・カタカナ、半角カナの違いを無視して比較できる文字列に変換する
+ * 変換後の各文字が、変換前のどの範囲に対応するかも返す
+ */
+export function convertJapaneseMatchableString(original: string) {
+  let text = ''
+  const ranges: MatchedRange[] = []
+  const chars = Array.from(original)
+  let position = 0
+  for (let i = 0; i < chars.length; i++) {
+    // 半角カナの濁点・半濁点は直前の文字と合わせて変換する
+    let cluster = chars[i]
+    while (i + 1 < chars.length && /[\uff9e\uff9f]/.test(chars[i + 1])) {
+      cluster += chars[++i]
+    }
+    const converted = convertMatchableString(toHiragana(cluster.normalize('NFKC')))
+    for (let j = 0; j < converted.length; j++) {
+      ranges.push({ start: position, end: position + cluster.length })
+    }
+    text += converted
+    position += cluster.length
+  }
+  return { text, ranges }
+}
+
+/**
+ * ひらがな・カタカナ、半角カナの違いを無視して、ラベルまたは読み仮名に入力値が含まれるかを判定する
+ */
+export function japaneseMatcher<T>({ label, reading }: ComboBoxItem<T>, inputValue: string) {
+  const query = convertJapaneseMatchableString(inputValue).text
+  const { text, ranges } = convertJapaneseMatchableString(label)
+  const index = text.indexOf(query)
+  if (index !== -1) {
+    if (query.length === 0) {
+      return true
+    }
+    return { start: ranges[index].start, end: ranges[index + query.length - 1].end }
+  }
+  return reading !== undefined && convertJapaneseMatchableString(reading).text.includes(query)
+}
+
+/**
+ * 同じグループの選択肢が隣り合うように並び替える
+ * グループは最初に現れた順に並び、グループ内の順序は保たれる
+ */
+export function sortOptionsByGroup<T>(options: Array<ComboBoxOption<T>>) {
+  const groupOrder: Array<string | undefined> = []
+  options.forEach(({ item: { group } }) => {
+    if (!groupOrder.includes(group)) {
+      groupOrder.push(group)
+    }
+  })
+  if (groupOrder.length <= 1) {
+    return options
+  }
+  return groupOrder.flatMap((group) => options.filter(({ item }) => item.group === group))
+}
+
+/**
+ * 隣り合う同じグループの選択肢をまとめる
+ */
+export function groupOptions<T>(options: Array<ComboBoxOption<T>>) {
+  return options.reduce<Array<{ group: string | undefined; options: Array<ComboBoxOption<T>> }>>(
+    (groups, option) => {
+      const last = groups[groups.length - 1]
+      if (last && last.group === option.item.group) {
+        last.options.push(option)
+      } else {
+        groups.push({ group: option.item.group, options: [option] })
+      }
+      return groups
+    },
+    [],
+  )
+}
+
+export type ListBoxRow<T> =
+  | { type: 'groupLabel'; group: string }
+  | { type: 'option'; group: string | undefined; option: ComboBoxOption<T> }
+
+/**
+ * リストボックスに並べる行の一覧を返す。グループの見出しも 1 行として扱う
+ */
+export function getListBoxRows<T>(options: Array<ComboBoxOption<T>>) {
+  return groupOptions(options).flatMap(({ group, options: groupedOptions }) => {
+    const optionRows = groupedOptions.map(
+      (option): ListBoxRow<T> => ({ type: 'option', group, option }),
+    )
+    return group === undefined
+      ? optionRows
+      : [{ type: 'groupLabel', group } as ListBoxRow<T>, ...optionRows]
+  })
+}
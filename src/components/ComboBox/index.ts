@@ -1,2 +1,5 @@
 export { MultiComboBox } from './MultiComboBox'
 export { SingleComboBox } from './SingleComboBox'
+export type { LoadOptions, LoadOptionsResult } from './useAsyncOptions'
+export { japaneseMatcher } from './comboBoxHelper'
+export type { ComboBoxMatcher, ValidateNewItem } from './types'
@@ -1,3 +1,5 @@
+import { ComboBoxItem } from './types'
+
 export function hasParentElementByClassName(
   element: HTMLElement | SVGElement | null,
   className: string,
@@ -8,3 +10,54 @@ export function hasParentElementByClassName(
     hasParentElementByClassName(element.parentElement, className)
   )
 }
+
+export function isSelectedItem<T>(selectedItems: Array<ComboBoxItem<T>>, item: ComboBoxItem<T>) {
+  return selectedItems.some(
+    (selected) => selected.label === item.label && selected.value === item.value,
+  )
+}
+
+/**
+ * 選択済みのアイテムに追加できるアイテムを、上限を超えない範囲で返す
+ */
+export function getSelectableItems<T>(
+  items: Array<ComboBoxItem<T>>,
+  selectedItems: Array<ComboBoxItem<T>>,
+  maxSelectedItems?: number,
+) {
+  const remaining =
+    maxSelectedItems === undefined
+      ? items.length
+      : Math.max(maxSelectedItems - selectedItems.length, 0)
+  return items
+    .filter((item) => !item.disabled && !isSelectedItem(selectedItems, item))
+    .slice(0, remaining)
+}
+
+/**
+ * 要素の上端の位置の一覧から、先頭から数えて指定した行数に収まる要素の数を返す
+ */
+export function countItemsWithinLines(tops: number[], maxLines: number) {
+  const lineTops: number[] = []
+  for (let i = 0; i < tops.length; i++) {
+    if (!lineTops.some((top) => Math.abs(top - tops[i]) < 1)) {
+      lineTops.push(tops[i])
+      if (lineTops.length > maxLines) {
+        return i
+      }
+    }
+  }
+  return tops.length
+}
+
+/**
+ * from の位置のアイテムを to の位置に移動した配列を返す
+ */
+export function moveItem<T>(items: T[], from: number, to: number) {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) {
+    return items
+  }
+  const moved = items.filter((_, i) => i !== from)
+  moved.splice(to, 0, items[from])
+  return moved
+}
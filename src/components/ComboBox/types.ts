@@ -1,7 +1,13 @@
+import { ReactNode } from 'react'
+
 export type ComboBoxItem<T> = {
   value: string
   label: string
   disabled?: boolean
+  /** 選択肢をまとめて表示するグループの見出し。同じ見出しの選択肢は、最初に現れた位置にまとめて表示される */
+  group?: string
+  /** 絞り込みに使う読み仮名。`japaneseMatcher` では、ラベルに加えて読み仮名でも一致を判定する */
+  reading?: string
   data?: T
 }
 
@@ -10,4 +16,43 @@ export type ComboBoxOption<T> = {
   selected: boolean
   isNew: boolean
   item: ComboBoxItem<T>
+  /** `true` のとき、一致する選択肢をすべて選択するための選択肢 */
+  isSelectAll?: boolean
+  /** ラベルのうち、入力値に一致した範囲。強調して表示する */
+  matchedRange?: MatchedRange
+  /** 新しいアイテムとして追加できない理由 */
+  error?: string
+}
+
+export type MatchedRange = {
+  start: number
+  end: number
 }
+
+/**
+ * アイテムが入力値に一致するかを判定する関数
+ * ラベルの一致した範囲を返すと、その範囲を強調して表示する。範囲がない場合は `true` を返す
+ */
+export type ComboBoxMatcher<T> = (
+  item: ComboBoxItem<T>,
+  inputValue: string,
+) => MatchedRange | boolean
+
+/**
+ * 新しく追加するアイテムのラベルを検証する関数
+ * 追加できる場合は正規化したラベルを `label` に、追加できない場合はその理由を `error` に返す
+ */
+export type ValidateNewItem = (label: string) => { label: string } | { error: string }
+
+/**
+ * リストボックスの選択肢の内容を返す関数
+ */
+export type RenderOption<T> = (
+  item: ComboBoxItem<T>,
+  state: {
+    /** キーボードやマウスで選択しようとしている状態 */
+    active: boolean
+    /** 選択済みの状態 */
+    selected: boolean
+  },
+) => ReactNode
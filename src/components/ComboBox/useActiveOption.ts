@@ -53,10 +53,55 @@ export function useActiveOption<T>({ options }: { options: Array<ComboBoxOption<
     moveActiveOptionIndex(activeOption, -1)
   }, [activeOption, moveActiveOptionIndex])
 
+  const moveActiveOptionTo = useCallback(
+    (index: number, direction: -1 | 1) => {
+      // 移動先が無効な場合は direction の方向、見つからなければ逆方向の有効な選択肢に移動する
+      const findEnabled = (from: number, step: -1 | 1) => {
+        for (let i = from; i >= 0 && i < options.length; i += step) {
+          if (!options[i].item.disabled) {
+            return options[i]
+          }
+        }
+        return undefined
+      }
+      const clamped = Math.min(Math.max(index, 0), options.length - 1)
+      const nextActive =
+        findEnabled(clamped, direction) ?? findEnabled(clamped, -direction as -1 | 1)
+      if (nextActive) {
+        setActiveOption(nextActive)
+      }
+    },
+    [options],
+  )
+
+  const moveActivePositionToFirst = useCallback(() => {
+    moveActiveOptionTo(0, 1)
+  }, [moveActiveOptionTo])
+
+  const moveActivePositionToLast = useCallback(() => {
+    moveActiveOptionTo(options.length - 1, -1)
+  }, [moveActiveOptionTo, options.length])
+
+  const moveActivePositionBy = useCallback(
+    (delta: number) => {
+      const currentActiveIndex =
+        activeOption === null ? -1 : options.findIndex((option) => option.id === activeOption.id)
+      if (currentActiveIndex === -1) {
+        moveActiveOptionTo(delta > 0 ? 0 : options.length - 1, delta > 0 ? 1 : -1)
+        return
+      }
+      moveActiveOptionTo(currentActiveIndex + delta, delta > 0 ? 1 : -1)
+    },
+    [activeOption, moveActiveOptionTo, options],
+  )
+
   return {
     activeOption,
     setActiveOption,
     moveActivePositionDown,
     moveActivePositionUp,
+    moveActivePositionToFirst,
+    moveActivePositionToLast,
+    moveActivePositionBy,
   }
 }
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { ComboBoxItem } from './types'
+
+export type LoadOptionsResult<T> = {
+  items: Array<ComboBoxItem<T>>
+  /** `true` のとき、次のページの選択肢がある */
+  hasMore?: boolean
+}
+export type LoadOptions<T> = (
+  query: string,
+  context: {
+    /** 入力値が変わるなどして不要になったリクエストを中断するための AbortSignal */
+    signal: AbortSignal
+    /** 読み込むページ。1 から始まる */
+    page: number
+  },
+) => Promise<Array<ComboBoxItem<T>> | LoadOptionsResult<T>>
+
+type LoadedOptions<T> = {
+  items: Array<ComboBoxItem<T>>
+  page: number
+  hasMore: boolean
+}
+
+const DEFAULT_DEBOUNCE_WAIT = 300
+// キャッシュする入力値の数の上限。超えた場合は最も長く使われていない入力値から破棄する
+const MAX_CACHE_SIZE = 50
+
+export function useAsyncOptions<T>({
+  loadOptions,
+  query,
+  isExpanded,
+  debounceWait = DEFAULT_DEBOUNCE_WAIT,
+  onError,
+}: {
+  loadOptions: LoadOptions<T> | undefined
+  query: string
+  isExpanded: boolean
+  debounceWait?: number
+  onError?: (error: unknown) => void
+}) {
+  const isEnabled = loadOptions !== undefined
+  // 読み込み結果は入力値ごとにキャッシュし、同じ入力値では再度読み込まない
+  const cache = useRef(new Map<string, LoadedOptions<T>>())
+  const [debouncedQuery, setDebouncedQuery] = useState(query)
+  const [loaded, setLoaded] = useState<LoadedOptions<T> | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [hasError, setHasError] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // 読み込み中に関数が変わっても、読み込みを始めた時点の関数ではなく最新の関数を使う
+  const loadOptionsRef = useRef(loadOptions)
+  loadOptionsRef.current = loadOptions
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+
+  // 読み込む関数が変わった場合は、別の読み込み元の結果を表示しないようキャッシュを破棄する
+  // 後続の effect で使うキャッシュを先に破棄するため、他の effect より前に宣言する
+  const cachedLoadOptionsRef = useRef(loadOptions)
+  useEffect(() => {
+    if (cachedLoadOptionsRef.current !== loadOptions) {
+      cachedLoadOptionsRef.current = loadOptions
+      cache.current.clear()
+    }
+  }, [loadOptions])
+
+  const getCache = useCallback((targetQuery: string) => {
+    const cached = cache.current.get(targetQuery)
+    if (cached) {
+      // 最近使った入力値として末尾に移す
+      cache.current.delete(targetQuery)
+      cache.current.set(targetQuery, cached)
+    }
+    return cached
+  }, [])
+  const setCache = useCallback((targetQuery: string, value: LoadedOptions<T>) => {
+    cache.current.delete(targetQuery)
+    cache.current.set(targetQuery, value)
+    if (cache.current.size > MAX_CACHE_SIZE) {
+      // Map は挿入順を保つため、先頭が最も長く使われていない入力値になる
+      cache.current.delete(cache.current.keys().next().value as string)
+    }
+  }, [])
+
+  const abort = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setIsLoading(false)
+  }, [])
+
+  const load = useCallback(
+    async (targetQuery: string, page: number, previousItems: Array<ComboBoxItem<T>>) => {
+      if (!loadOptionsRef.current) {
+        return
+      }
+      abortControllerRef.current?.abort()
+      const controller = new AbortController()
+      abortControllerRef.current = controller
+      setIsLoading(true)
+      setHasError(false)
+
+      try {
+        const result = await loadOptionsRef.current(targetQuery, {
+          signal: controller.signal,
+          page,
+        })
+        if (controller.signal.aborted) {
+          return
+        }
+        const { items, hasMore = false } = Array.isArray(result) ? { items: result } : result
+        const nextLoaded = { items: [...previousItems, ...items], page, hasMore }
+        setCache(targetQuery, nextLoaded)
+        setLoaded(nextLoaded)
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return
+        }
+        // 読み込みに失敗した場合はキャッシュせず、読み込めた分だけを表示してエラーを伝える
+        // 続きを自動で読み込み直し続けないよう、次のページはないものとして扱う
+        setLoaded({ items: previousItems, page, hasMore: false })
+        setHasError(true)
+        onErrorRef.current?.(error)
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null
+          setIsLoading(false)
+        }
+      }
+    },
+    [setCache],
+  )
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return
+    }
+    // キャッシュがある場合は待たずに表示する
+    if (cache.current.has(query)) {
+      setDebouncedQuery(query)
+      return
+    }
+    const timerId = setTimeout(() => setDebouncedQuery(query), debounceWait)
+    return () => clearTimeout(timerId)
+  }, [debounceWait, isEnabled, query])
+
+  useEffect(() => {
+    if (!isEnabled || !isExpanded) {
+      return
+    }
+    const cached = getCache(debouncedQuery)
+    if (cached) {
+      abort()
+      setLoaded(cached)
+      setHasError(false)
+      return
+    }
+    setLoaded(null)
+    load(debouncedQuery, 1, [])
+    // 読み込む関数が変わった場合も読み込み直す
+  }, [abort, debouncedQuery, getCache, isEnabled, isExpanded, load, loadOptions])
+
+  // アンマウント時に読み込み中のリクエストを中断する
+  useEffect(
+    () => () => {
+      abortControllerRef.current?.abort()
+      abortControllerRef.current = null
+    },
+    [],
+  )
+
+  const loadMore = useCallback(() => {
+    if (loaded === null || !loaded.hasMore || isLoading) {
+      return
+    }
+    load(debouncedQuery, loaded.page + 1, loaded.items)
+  }, [debouncedQuery, isLoading, load, loaded])
+
+  return {
+    items: loaded?.items ?? [],
+    /** 最初のページを読み込み中、または入力を待っている */
+    isLoading: isEnabled && ((isLoading && loaded === null) || query !== debouncedQuery),
+    /** 次のページを読み込み中 */
+    isLoadingMore: isLoading && loaded !== null,
+    hasMore: loaded?.hasMore ?? false,
+    /** 直近の読み込みに失敗した */
+    hasError: isEnabled && hasError,
+    loadMore,
+  }
+}
@@ -14,8 +14,12 @@ export function useSingleComboBoxClassNames() {
       listBox: {
         dropdownList: generate('dropdownList'),
         addButton: generate('addButton'),
+        selectAllButton: generate('selectAllButton'),
         selectButton: generate('selectButton'),
+        groupLabel: generate('groupLabel'),
         noItems: generate('noItems'),
+        loadError: generate('loadError'),
+        statusMessage: generate('statusMessage'),
       },
     }),
     [generate],
@@ -31,13 +35,19 @@ export function useMultiComboBoxClassNames() {
       selectedItem: generate('selectedItem'),
       selectedItemLabel: generate('selectedItemLabel'),
       deleteButton: generate('deleteButton'),
+      clearAllButton: generate('clearAllButton'),
+      hiddenItems: generate('hiddenItems'),
       input: generate('input'),
       placeholder: generate('placeholder'),
       listBox: {
         dropdownList: generate('dropdownList'),
         addButton: generate('addButton'),
+        selectAllButton: generate('selectAllButton'),
         selectButton: generate('selectButton'),
+        groupLabel: generate('groupLabel'),
         noItems: generate('noItems'),
+        loadError: generate('loadError'),
+        statusMessage: generate('statusMessage'),
       },
     }),
     [generate],
@@ -0,0 +1,50 @@
+import { RefObject, useEffect, useLayoutEffect, useState } from 'react'
+
+import { countItemsWithinLines } from './multiComboBoxHelper'
+
+export function useCollapsedSelectedItems({
+  selectedListRef,
+  selectedItems,
+  maxLines,
+  isCollapsed,
+}: {
+  selectedListRef: RefObject<HTMLElement>
+  selectedItems: unknown[]
+  /** 選択済みアイテムを表示する最大の行数。省略した場合は折りたたまない */
+  maxLines: number | undefined
+  isCollapsed: boolean
+}) {
+  // 表示する選択済みアイテムの数。null の間はすべて表示して位置を計測する
+  const [visibleCount, setVisibleCount] = useState<number | null>(null)
+
+  useLayoutEffect(() => {
+    // 折りたたむ前に、すべてのアイテムを表示した状態で計測し直す
+    setVisibleCount(null)
+  }, [selectedItems, maxLines, isCollapsed])
+
+  useEffect(() => {
+    if (maxLines === undefined || !isCollapsed) {
+      return
+    }
+    const handleResize = () => setVisibleCount(null)
+    window.addEventListener('resize', handleResize)
+    return () => window.removeEventListener('resize', handleResize)
+  }, [isCollapsed, maxLines])
+
+  useLayoutEffect(() => {
+    const list = selectedListRef.current
+    if (visibleCount !== null || maxLines === undefined || !isCollapsed || !list) {
+      return
+    }
+    const tops = Array.from(list.children).map((child) => child.getBoundingClientRect().top)
+    const count = countItemsWithinLines(tops, maxLines)
+    // 収まらない場合は、残りの件数を表示する場所を空けるために 1 件減らす
+    setVisibleCount(count < tops.length ? Math.max(count - 1, 0) : tops.length)
+  }, [isCollapsed, maxLines, selectedListRef, visibleCount])
+
+  const count = visibleCount ?? selectedItems.length
+  return {
+    visibleCount: count,
+    hiddenCount: selectedItems.length - count,
+  }
+}
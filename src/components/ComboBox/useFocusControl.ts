@@ -5,7 +5,19 @@ export function useFocusControl(selectedItemLength: number) {
     () => Array.from({ length: selectedItemLength }).map(() => createRef<HTMLButtonElement>()),
     [selectedItemLength],
   )
+  // 削除ボタンがないアイテムでは、アイテム自体にフォーカスする
+  const itemRefs = useMemo(
+    () => Array.from({ length: selectedItemLength }).map(() => createRef<HTMLLIElement>()),
+    [selectedItemLength],
+  )
   const inputRef = useRef<HTMLInputElement>(null)
+  const focusItem = useCallback(
+    (index: number) => {
+      const target = deletionButtonRefs[index]?.current ?? itemRefs[index]?.current
+      target && target.focus()
+    },
+    [deletionButtonRefs, itemRefs],
+  )
 
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null)
 
@@ -16,15 +28,15 @@ export function useFocusControl(selectedItemLength: number) {
     if (focusedIndex === null) {
       if (inputRef.current?.selectionStart === 0) {
         const nextIndex = deletionButtonRefs.length - 1
-        deletionButtonRefs[nextIndex].current?.focus()
+        focusItem(nextIndex)
         setFocusedIndex(nextIndex)
       }
     } else {
       const nextIndex = Math.max(focusedIndex - 1, 0)
-      deletionButtonRefs[nextIndex].current?.focus()
+      focusItem(nextIndex)
       setFocusedIndex(nextIndex)
     }
-  }, [deletionButtonRefs, focusedIndex, selectedItemLength])
+  }, [deletionButtonRefs, focusItem, focusedIndex, selectedItemLength])
 
   const focusNextDeletionButton = useCallback(() => {
     if (deletionButtonRefs.length === 0) {
@@ -34,7 +46,7 @@ export function useFocusControl(selectedItemLength: number) {
     if (focusedIndex !== null) {
       const nextIndex = focusedIndex + 1
       if (nextIndex < deletionButtonRefs.length) {
-        deletionButtonRefs[nextIndex].current?.focus()
+        focusItem(nextIndex)
         setFocusedIndex(nextIndex)
       } else {
         setFocusedIndex(null)
@@ -44,7 +56,15 @@ export function useFocusControl(selectedItemLength: number) {
         })
       }
     }
-  }, [deletionButtonRefs, focusedIndex])
+  }, [deletionButtonRefs, focusItem, focusedIndex])
+
+  const focusDeletionButton = useCallback(
+    (index: number) => {
+      focusItem(index)
+      setFocusedIndex(index)
+    },
+    [focusItem],
+  )
 
   const resetDeletionButtonFocus = useCallback(() => {
     setFocusedIndex(null)
@@ -52,7 +72,10 @@ export function useFocusControl(selectedItemLength: number) {
 
   return {
     deletionButtonRefs,
+    itemRefs,
     inputRef,
+    focusedIndex,
+    focusDeletionButton,
     focusPrevDeletionButton,
     focusNextDeletionButton,
     resetDeletionButtonFocus,
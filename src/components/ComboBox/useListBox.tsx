@@ -12,28 +12,45 @@ import React, {
 } from 'react'
 import styled, { css } from 'styled-components'
 
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
 import { useId } from '../../hooks/useId'
 import { usePortal } from '../../hooks/usePortal'
 import { Theme, useTheme } from '../../hooks/useTheme'
-import { FaInfoCircleIcon } from '../Icon'
+import { FaExclamationCircleIcon, FaInfoCircleIcon } from '../Icon'
 import { Loader } from '../Loader'
 
 import { ComboBoxContext } from './ComboBoxContext'
+import { ListBoxGroup } from './ListBoxGroup'
 import { ListBoxItem } from './ListBoxItem'
-import { ComboBoxItem, ComboBoxOption } from './types'
+import { ListBoxRow, getListBoxRows } from './comboBoxHelper'
+import { ComboBoxItem, ComboBoxOption, RenderOption } from './types'
 import { useActiveOption } from './useActiveOption'
-import { usePartialRendering } from './usePartialRendering'
+import { useVirtualList } from './useVirtualList'
 
 type Props<T> = {
   options: Array<ComboBoxOption<T>>
   dropdownHelpMessage?: ReactNode
+  statusMessage?: ReactNode
   dropdownWidth?: string | number
-  onAdd?: (label: string) => void
+  onAdd?: (label: string) => void | Promise<void>
   onSelect: (item: ComboBoxItem<T>) => void
+  selectAllText?: string
+  onSelectAll?: () => void
   isExpanded: boolean
   isLoading?: boolean
+  isLoadingMore?: boolean
+  hasMore?: boolean
+  onLoadMore?: () => void
+  hasLoadError?: boolean
+  renderOption?: RenderOption<T>
   triggerRef: RefObject<HTMLElement>
-  decorator: { noResultText?: (text: string) => ReactNode } | undefined
+  decorator:
+    | {
+        noResultText?: (text: string) => ReactNode
+        addItemText?: (text: string, label: string) => ReactNode
+        loadErrorText?: (text: string) => ReactNode
+      }
+    | undefined
 }
 
 type Rect = {
@@ -44,21 +61,56 @@ type Rect = {
 }
 
 const NO_RESULT_TEXT = '一致する選択肢がありません'
+const LOAD_ERROR_TEXT = '選択肢を読み込めませんでした'
+// 選択肢の高さの見積もり。描画した選択肢は実際の高さを計測して位置を補正する
+const ESTIMATED_OPTION_HEIGHT = 32
+const OVERSCAN = 5
 
 export function useListBox<T>({
-  options,
+  options: baseOptions,
   dropdownHelpMessage,
+  statusMessage,
   dropdownWidth,
   onAdd,
   onSelect,
+  selectAllText = '',
+  onSelectAll,
   isExpanded,
   isLoading,
+  isLoadingMore = false,
+  hasMore = false,
+  onLoadMore,
+  hasLoadError = false,
+  renderOption,
   triggerRef,
   decorator,
 }: Props<T>) {
+  const selectAllOptionId = useId()
+  const options = useMemo(() => {
+    if (!onSelectAll) {
+      return baseOptions
+    }
+    // すべて選択する操作も、キーボードで選べるよう選択肢の先頭に並べる
+    const selectAllOption: ComboBoxOption<T> = {
+      id: selectAllOptionId,
+      selected: false,
+      isNew: false,
+      isSelectAll: true,
+      item: { label: selectAllText, value: selectAllText },
+    }
+    return [selectAllOption, ...baseOptions]
+  }, [baseOptions, onSelectAll, selectAllOptionId, selectAllText])
+
   const [navigationType, setNavigationType] = useState<'pointer' | 'key'>('pointer')
-  const { activeOption, setActiveOption, moveActivePositionDown, moveActivePositionUp } =
-    useActiveOption({ options })
+  const {
+    activeOption,
+    setActiveOption,
+    moveActivePositionDown,
+    moveActivePositionUp,
+    moveActivePositionToFirst,
+    moveActivePositionToLast,
+    moveActivePositionBy,
+  } = useActiveOption({ options })
 
   useEffect(() => {
     // 閉じたときに activeOption を初期化
@@ -114,30 +166,43 @@ export function useListBox<T>({
     })
   }, [listBoxRef, triggerRef])
 
-  const activeRef = useRef<HTMLButtonElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const rows = useMemo(() => getListBoxRows(options), [options])
+  const activeRowIndex = useMemo(
+    () =>
+      activeOption === null
+        ? -1
+        : rows.findIndex((row) => row.type === 'option' && row.option.id === activeOption.id),
+    [activeOption, rows],
+  )
+  const { start, end, paddingTop, paddingBottom, pageSize, scrollToIndex, handleScroll } =
+    useVirtualList({
+      rows,
+      containerRef: listBoxRef,
+      contentRef,
+      estimatedRowHeight: ESTIMATED_OPTION_HEIGHT,
+      overscan: OVERSCAN,
+      isEnabled: isExpanded && !isLoading,
+    })
 
   useEffect(() => {
     // actionOption の要素が表示される位置までリストボックス内をスクロールさせる
-    if (
-      navigationType !== 'key' ||
-      activeOption === null ||
-      !activeRef.current ||
-      !listBoxRef.current
-    ) {
+    if (navigationType !== 'key' || activeRowIndex === -1) {
       return
     }
-    const activeRect = activeRef.current.getBoundingClientRect()
-    const containerRect = listBoxRef.current.getBoundingClientRect()
-
-    const isActiveTopOutside = activeRect.top < containerRect.top
-    const isActiveBottomOutside = activeRect.bottom > containerRect.bottom
+    // グループの先頭の選択肢の場合は、先に見出しまでスクロールして見出しも表示されるようにする
+    if (rows[activeRowIndex - 1]?.type === 'groupLabel') {
+      scrollToIndex(activeRowIndex - 1)
+    }
+    scrollToIndex(activeRowIndex)
+  }, [activeRowIndex, navigationType, rows, scrollToIndex])
 
-    if (isActiveTopOutside) {
-      listBoxRef.current.scrollTop -= containerRect.top - activeRect.top
-    } else if (isActiveBottomOutside) {
-      listBoxRef.current.scrollTop += activeRect.bottom - containerRect.bottom
+  useEffect(() => {
+    // 最後の行まで描画したら次のページを読み込む。読み込み中は重ねて読み込まない
+    if (isExpanded && !isLoading && hasMore && !isLoadingMore && end >= rows.length) {
+      onLoadMore && onLoadMore()
     }
-  }, [activeOption, listBoxRef, navigationType])
+  }, [end, hasMore, isExpanded, isLoading, isLoadingMore, onLoadMore, rows.length])
 
   useLayoutEffect(() => {
     if (isExpanded) {
@@ -146,6 +211,24 @@ export function useListBox<T>({
     }
   }, [calculateRect, isExpanded, options])
 
+  // 非同期に追加している間のアイテムのラベル
+  const [pendingNewItemLabel, setPendingNewItemLabel] = useState<string | null>(null)
+  const addItem = useCallback(
+    (label: string) => {
+      if (!onAdd || pendingNewItemLabel !== null) {
+        return
+      }
+      const result = onAdd(label)
+      if (result instanceof Promise) {
+        setPendingNewItemLabel(label)
+        // 追加に失敗した場合の通知は onAdd を指定した側で行う
+        const clear = () => setPendingNewItemLabel(null)
+        result.then(clear, clear)
+      }
+    },
+    [onAdd, pendingNewItemLabel],
+  )
+
   const handleKeyDown = useCallback(
     (e: KeyboardEvent<HTMLElement>) => {
       setNavigationType('key')
@@ -156,13 +239,32 @@ export function useListBox<T>({
       } else if (e.key === 'Up' || e.key === 'ArrowUp') {
         e.stopPropagation()
         moveActivePositionUp()
+      } else if (e.key === 'PageDown' || e.key === 'PageUp') {
+        e.preventDefault()
+        e.stopPropagation()
+        moveActivePositionBy(e.key === 'PageDown' ? pageSize : -pageSize)
+      } else if ((e.key === 'Home' || e.key === 'End') && activeOption !== null) {
+        // 選択肢を操作していない間は、入力欄のカーソル移動を妨げない
+        e.preventDefault()
+        e.stopPropagation()
+        if (e.key === 'Home') {
+          moveActivePositionToFirst()
+        } else {
+          moveActivePositionToLast()
+        }
       } else if (e.key === 'Enter') {
-        if (activeOption === null) {
+        if (
+          activeOption === null ||
+          activeOption.item.disabled ||
+          activeOption.error !== undefined
+        ) {
           return
         }
         e.stopPropagation()
-        if (activeOption.isNew) {
-          onAdd && onAdd(activeOption.item.label)
+        if (activeOption.isSelectAll) {
+          onSelectAll && onSelectAll()
+        } else if (activeOption.isNew) {
+          addItem(activeOption.item.label)
         } else {
           onSelect(activeOption.item)
         }
@@ -170,32 +272,43 @@ export function useListBox<T>({
         setActiveOption(null)
       }
     },
-    [activeOption, moveActivePositionDown, moveActivePositionUp, onAdd, onSelect, setActiveOption],
+    [
+      activeOption,
+      addItem,
+      moveActivePositionBy,
+      moveActivePositionDown,
+      moveActivePositionToFirst,
+      moveActivePositionToLast,
+      moveActivePositionUp,
+      onSelect,
+      onSelectAll,
+      pageSize,
+      setActiveOption,
+    ],
   )
 
   const theme = useTheme()
   const { createPortal } = usePortal()
   const listBoxId = useId()
-  const { items: partialOptions, renderIntersection } = usePartialRendering({
-    items: options,
-    minLength: useMemo(
-      () => (activeOption === null ? 0 : options.indexOf(activeOption)) + 1,
-      [activeOption, options],
-    ),
-  })
   const { listBoxClassNames: classNames } = useContext(ComboBoxContext)
 
   const handleAdd = useCallback(
     (option: ComboBoxOption<T>) => {
-      onAdd && onAdd(option.item.label)
+      if (option.error === undefined) {
+        addItem(option.item.label)
+      }
     },
-    [onAdd],
+    [addItem],
   )
   const handleSelect = useCallback(
     (option: ComboBoxOption<T>) => {
-      onSelect(option.item)
+      if (option.isSelectAll) {
+        onSelectAll && onSelectAll()
+      } else {
+        onSelect(option.item)
+      }
     },
-    [onSelect],
+    [onSelect, onSelectAll],
   )
   const handleHoverOption = useCallback(
     (option: ComboBoxOption<T>) => {
@@ -205,6 +318,32 @@ export function useListBox<T>({
     [setActiveOption],
   )
 
+  const renderItem = useCallback(
+    (option: ComboBoxOption<T>, index?: number) => (
+      <ListBoxItem
+        key={option.id}
+        option={option}
+        isActive={option.id === activeOption?.id}
+        onAdd={handleAdd}
+        onSelect={handleSelect}
+        onMouseOver={handleHoverOption}
+        renderOption={renderOption}
+        isPending={option.isNew && option.item.label === pendingNewItemLabel}
+        addItemText={decorator?.addItemText}
+        index={index}
+      />
+    ),
+    [
+      activeOption?.id,
+      decorator?.addItemText,
+      handleAdd,
+      handleHoverOption,
+      handleSelect,
+      pendingNewItemLabel,
+      renderOption,
+    ],
+  )
+
   const renderListBox = useCallback(
     () =>
       createPortal(
@@ -218,6 +357,7 @@ export function useListBox<T>({
             role="listbox"
             aria-hidden={!isExpanded}
             className={classNames.dropdownList}
+            onScroll={handleScroll}
           >
             {dropdownHelpMessage && (
               <HelpMessage themes={theme}>
@@ -228,11 +368,16 @@ export function useListBox<T>({
                 />
               </HelpMessage>
             )}
+            {isExpanded && statusMessage && (
+              <HelpMessage themes={theme} role="status" className={classNames.statusMessage}>
+                {statusMessage}
+              </HelpMessage>
+            )}
             {!isExpanded ? null : isLoading ? (
               <LoaderWrapper themes={theme}>
                 <Loader />
               </LoaderWrapper>
-            ) : options.length === 0 ? (
+            ) : options.length === 0 && hasLoadError ? null : options.length === 0 ? (
               <NoItems
                 themes={theme}
                 role="alert"
@@ -242,37 +387,75 @@ export function useListBox<T>({
                 {decorator?.noResultText ? decorator.noResultText(NO_RESULT_TEXT) : NO_RESULT_TEXT}
               </NoItems>
             ) : (
-              partialOptions.map((option) => (
-                <ListBoxItem
-                  key={option.id}
-                  option={option}
-                  isActive={option.id === activeOption?.id}
-                  onAdd={handleAdd}
-                  onSelect={handleSelect}
-                  onMouseOver={handleHoverOption}
-                  activeRef={activeRef}
+              <div ref={contentRef} style={{ paddingTop, paddingBottom }}>
+                {groupRows(rows, start, end).map(({ group, indexes }) => {
+                  const items = indexes.flatMap((index) => {
+                    const row = rows[index]
+                    return row.type === 'option' ? renderItem(row.option, index) : []
+                  })
+                  return group === undefined ? (
+                    items
+                  ) : (
+                    <ListBoxGroup
+                      key={group}
+                      label={group}
+                      labelIndex={rows[indexes[0]].type === 'groupLabel' ? indexes[0] : undefined}
+                    >
+                      {items}
+                    </ListBoxGroup>
+                  )
+                })}
+              </div>
+            )}
+            {isExpanded &&
+              activeOption !== null &&
+              (activeRowIndex < start || activeRowIndex >= end) && (
+                // 描画範囲外にスクロールした場合も aria-activedescendant が参照できるよう、見えない状態で描画する
+                <OffscreenOption>{renderItem(activeOption)}</OffscreenOption>
+              )}
+            {isExpanded && !isLoading && isLoadingMore && (
+              <LoaderWrapper themes={theme}>
+                <Loader size="s" />
+              </LoaderWrapper>
+            )}
+            {isExpanded && !isLoading && !isLoadingMore && hasLoadError && (
+              <NoItems themes={theme} role="alert" className={classNames.loadError}>
+                <FaExclamationCircleIcon
+                  color="DANGER"
+                  text={
+                    decorator?.loadErrorText
+                      ? decorator.loadErrorText(LOAD_ERROR_TEXT)
+                      : LOAD_ERROR_TEXT
+                  }
                 />
-              ))
+              </NoItems>
             )}
-            {renderIntersection()}
           </Container>
         </Wrapper>,
       ),
     [
-      activeOption?.id,
+      activeOption,
+      activeRowIndex,
       classNames.dropdownList,
+      classNames.loadError,
       classNames.noItems,
+      classNames.statusMessage,
       createPortal,
-      handleAdd,
-      handleHoverOption,
-      handleSelect,
+      end,
+      handleScroll,
+      hasLoadError,
       isExpanded,
       isLoading,
+      isLoadingMore,
       listBoxId,
       listBoxRect,
       options.length,
-      partialOptions,
-      renderIntersection,
+      paddingBottom,
+      paddingTop,
+      renderItem,
+      rows,
+      start,
+      statusMessage,
       dropdownHelpMessage,
       dropdownWidth,
       theme,
@@ -289,6 +472,23 @@ export function useListBox<T>({
   }
 }
 
+/**
+ * 描画範囲の行を、隣り合う同じグループの行ごとにまとめる
+ */
+function groupRows<T>(rows: Array<ListBoxRow<T>>, start: number, end: number) {
+  const groups: Array<{ group: string | undefined; indexes: number[] }> = []
+  for (let index = start; index < end; index++) {
+    const { group } = rows[index]
+    const last = groups[groups.length - 1]
+    if (last && last.group === group) {
+      last.indexes.push(index)
+    } else {
+      groups.push({ group, indexes: [index] })
+    }
+  }
+  return groups
+}
+
 const Wrapper = styled.div<Rect>(({ top, left, width }) => {
   return css`
     /*
@@ -379,3 +579,7 @@ const LoaderWrapper = styled.div<{ themes: Theme }>`
     `
   }}
 `
+
+const OffscreenOption = styled.div`
+  ${VISUALLY_HIDDEN_STYLE}
+`
@@ -2,8 +2,8 @@ import { useCallback, useMemo } from 'react'
 
 import { useId } from '../../hooks/useId'
 
-import { convertMatchableString } from './comboBoxHelper'
-import { ComboBoxItem, ComboBoxOption } from './types'
+import { defaultMatcher, sortOptionsByGroup } from './comboBoxHelper'
+import { ComboBoxItem, ComboBoxMatcher, ComboBoxOption, ValidateNewItem } from './types'
 
 export function useOptions<T>({
   items,
@@ -11,17 +11,31 @@ export function useOptions<T>({
   creatable,
   inputValue = '',
   isFilteringDisabled = false,
+  matcher = defaultMatcher,
+  validateNewItem,
 }: {
   items: Array<ComboBoxItem<T>>
   selected: (ComboBoxItem<T> | null) | Array<ComboBoxItem<T>>
   creatable: boolean
   inputValue?: string
   isFilteringDisabled?: boolean
+  matcher?: ComboBoxMatcher<T>
+  validateNewItem?: ValidateNewItem
 }) {
-  const isInputValueAddable = useMemo(
-    () => creatable && inputValue !== '' && !items.some((item) => item.label === inputValue),
-    [creatable, inputValue, items],
-  )
+  const newItem = useMemo(() => {
+    if (!creatable || inputValue === '') {
+      return null
+    }
+    const validated = validateNewItem ? validateNewItem(inputValue) : { label: inputValue }
+    if ('error' in validated) {
+      return { label: inputValue, error: validated.error }
+    }
+    // 正規化したラベルのアイテムが既にある場合は追加しない
+    if (validated.label === '' || items.some((item) => item.label === validated.label)) {
+      return null
+    }
+    return { label: validated.label, error: undefined }
+  }, [creatable, inputValue, items, validateNewItem])
 
   const newItemId = useId()
   const optionIdPrefix = useId()
@@ -48,33 +62,47 @@ export function useOptions<T>({
   )
 
   const allOptions: Array<ComboBoxOption<T>> = useMemo(() => {
-    const _options = items.map((item, i) => ({
-      id: getOptionId(i),
-      selected: isSelected(item),
-      isNew: false,
-      item,
-    }))
-    if (isInputValueAddable) {
-      const addingOption = {
+    // グループの見出しの下にまとめて表示するため、表示順に並び替えておく
+    const _options = sortOptionsByGroup(
+      items.map((item, i) => ({
+        id: getOptionId(i),
+        selected: isSelected(item),
+        isNew: false,
+        item,
+      })),
+    )
+    if (newItem) {
+      const addingOption: ComboBoxOption<T> = {
         id: newItemId,
         isNew: true,
         selected: false,
-        item: { label: inputValue, value: inputValue },
+        // 追加できない理由を読み上げられるよう、disabled にはせずキーボードで選べるようにする
+        item: { label: newItem.label, value: newItem.label },
+        error: newItem.error,
       }
       return [addingOption, ..._options]
     }
     return _options
-  }, [getOptionId, inputValue, isInputValueAddable, isSelected, items, newItemId])
+  }, [getOptionId, isSelected, items, newItem, newItemId])
 
   const options = useMemo(() => {
-    if (isFilteringDisabled) {
+    if (isFilteringDisabled || !inputValue) {
       return allOptions
     }
-    return allOptions.filter(({ item: { label } }) => {
-      if (!inputValue) return true
-      return convertMatchableString(label).includes(convertMatchableString(inputValue))
-    })
-  }, [allOptions, inputValue, isFilteringDisabled])
+    return allOptions.reduce<Array<ComboBoxOption<T>>>((filtered, option) => {
+      if (option.isNew) {
+        filtered.push(option)
+        return filtered
+      }
+      const matched = matcher(option.item, inputValue)
+      if (matched === true) {
+        filtered.push(option)
+      } else if (matched) {
+        filtered.push({ ...option, matchedRange: matched })
+      }
+      return filtered
+    }, [])
+  }, [allOptions, inputValue, isFilteringDisabled, matcher])
 
   return {
     options,
@@ -0,0 +1,122 @@
+import { RefObject, useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
+
+import { getRowOffsets, getVisibleRange } from '../../libs/virtualization'
+
+/** 描画した行の要素に付与し、高さを計測する際に行のインデックスを特定するための属性 */
+export const VIRTUAL_INDEX_ATTRIBUTE = 'data-virtual-index'
+
+export function useVirtualList<T>({
+  rows,
+  containerRef,
+  contentRef,
+  estimatedRowHeight,
+  overscan,
+  isEnabled,
+}: {
+  rows: T[]
+  /** スクロールする要素 */
+  containerRef: RefObject<HTMLElement>
+  /** 行を並べる要素。containerRef の要素を基準に位置を算出するため、その子孫である必要がある */
+  contentRef: RefObject<HTMLElement>
+  estimatedRowHeight: number
+  overscan: number
+  isEnabled: boolean
+}) {
+  // 計測済みの行の高さ。行のデータが変わった場合は計測結果を破棄する
+  const measuredHeights = useRef(new Map<number, number>())
+  const [measuredVersion, setMeasuredVersion] = useState(0)
+  const measuredRows = useRef(rows)
+  if (measuredRows.current !== rows) {
+    measuredHeights.current.clear()
+    measuredRows.current = rows
+  }
+  const [viewport, setViewport] = useState({ top: 0, height: 0 })
+
+  const offsets = useMemo(
+    () => getRowOffsets(rows.length, measuredHeights.current, estimatedRowHeight),
+    // 計測結果は ref で保持しているため、measuredVersion の更新時に offsets を再計算する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [estimatedRowHeight, rows, measuredVersion],
+  )
+  const { start, end } = getVisibleRange({
+    offsets,
+    viewportTop: viewport.top,
+    viewportHeight: viewport.height,
+    overscan,
+  })
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current
+    const content = contentRef.current
+    if (!container || !content) {
+      return
+    }
+    const next = {
+      top: container.scrollTop - content.offsetTop,
+      height: container.clientHeight,
+    }
+    setViewport((current) =>
+      current.top === next.top && current.height === next.height ? current : next,
+    )
+  }, [containerRef, contentRef])
+
+  useLayoutEffect(() => {
+    // 表示された時や行が変わった時に、スクロール位置と表示領域の高さを取得し直す
+    if (isEnabled) {
+      updateViewport()
+    }
+  }, [isEnabled, rows, updateViewport])
+
+  useLayoutEffect(() => {
+    // 描画された行の高さを計測する
+    const content = contentRef.current
+    if (!isEnabled || !content) {
+      return
+    }
+    let changed = false
+    content.querySelectorAll(`[${VIRTUAL_INDEX_ATTRIBUTE}]`).forEach((element) => {
+      const index = Number(element.getAttribute(VIRTUAL_INDEX_ATTRIBUTE))
+      const height = element.getBoundingClientRect().height
+      const current = measuredHeights.current.get(index)
+      if (height > 0 && (current === undefined || Math.abs(current - height) > 0.5)) {
+        measuredHeights.current.set(index, height)
+        changed = true
+      }
+    })
+    if (changed) {
+      setMeasuredVersion((current) => current + 1)
+    }
+  }, [contentRef, end, isEnabled, rows, start])
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const container = containerRef.current
+      const content = contentRef.current
+      if (!container || !content || index < 0 || index >= rows.length) {
+        return
+      }
+      const top = content.offsetTop + offsets[index]
+      const bottom = content.offsetTop + offsets[index + 1]
+      if (top < container.scrollTop) {
+        container.scrollTop = top
+      } else if (bottom > container.scrollTop + container.clientHeight) {
+        container.scrollTop = bottom - container.clientHeight
+      }
+      updateViewport()
+    },
+    [containerRef, contentRef, offsets, rows.length, updateViewport],
+  )
+
+  // PageUp / PageDown で移動する行数
+  const pageSize = Math.max(Math.floor(viewport.height / estimatedRowHeight), 1)
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[rows.length] - offsets[end],
+    pageSize,
+    scrollToIndex,
+    handleScroll: updateViewport,
+  }
+}
@@ -4,6 +4,9 @@ import * as React from 'react'
 import styled from 'styled-components'
 
 import { DatePicker } from './DatePicker'
+import { DateRangePicker } from './DateRangePicker'
+import { DateTimePicker } from './DateTimePicker'
+import { TimePicker } from './TimePicker'
 
 export default {
   title: 'DatePicker',
@@ -44,6 +47,23 @@ export const All: Story = () => {
       <dd>
         <DatePicker value="1994/09/28" showAlternative={() => '平成6年9月28日'} />
       </dd>
+      <dt>Select a month (ex. 令和6年5月, 2024-05 can be typed)</dt>
+      <dd>
+        <DatePicker name="month" granularity="month" onChangeDate={action('change')} />
+      </dd>
+      <dt>Select a year</dt>
+      <dd>
+        <DatePicker name="year" granularity="year" onChangeDate={action('change')} />
+      </dd>
+      <dt>Japanese era (ex. 令和元年5月1日)</dt>
+      <dd>
+        <DatePicker
+          name="era"
+          value="2019/05/01"
+          calendarEra="japanese"
+          onChangeDate={action('change')}
+        />
+      </dd>
       <dt>Disabled</dt>
       <dd>
         <DatePicker disabled />
@@ -61,6 +81,92 @@ export const All: Story = () => {
 }
 All.storyName = 'all'
 
+export const RangePicker: Story = () => {
+  const [value, setValue] = React.useState<string>('2024/04/01 〜 2024/04/30')
+  const [errors, setErrors] = React.useState<string[]>([])
+  return (
+    <List>
+      <dt>DateRangePicker</dt>
+      <dd>
+        <DateRangePicker name="range" onChangeRange={action('change')} />
+      </dd>
+      <dt>Controlled value (ex. 令和6年4月1日〜令和6年5月6日 can be typed)</dt>
+      <dd>
+        <DateRangePicker
+          name="controlled_range"
+          value={value}
+          error={errors.length > 0}
+          onChangeRange={(_range, _value, _other) => {
+            action('change')(_range, _value, _other)
+            setValue(_value)
+            setErrors(_other.errors)
+          }}
+        />
+        <p>errors: {errors.join(', ')}</p>
+      </dd>
+      <dt>Pass `from`, `to`</dt>
+      <dd>
+        <DateRangePicker
+          name="from_to_range"
+          from={new Date(2024, 0, 1)}
+          to={new Date(2024, 11, 31)}
+          onChangeRange={action('change')}
+        />
+      </dd>
+      <dt>Disabled</dt>
+      <dd>
+        <DateRangePicker name="disabled_range" disabled />
+      </dd>
+    </List>
+  )
+}
+RangePicker.storyName = 'range picker'
+
+export const Time: Story = () => {
+  const [errors, setErrors] = React.useState<string[]>([])
+  const [dateTime, setDateTime] = React.useState<Date | null>(new Date(2024, 4, 1, 9, 30))
+  return (
+    <List>
+      <dt>TimePicker (ex. 930, 9時30分 can be typed)</dt>
+      <dd>
+        <TimePicker name="time" onChangeTime={action('change')} />
+      </dd>
+      <dt>Pass `min`, `max` and `step`</dt>
+      <dd>
+        <TimePicker
+          name="limited_time"
+          min="09:00"
+          max="18:00"
+          step={30}
+          error={errors.length > 0}
+          onChangeTime={(_time, _value, _other) => {
+            action('change')(_time, _value, _other)
+            setErrors(_other.errors)
+          }}
+        />
+        <p>errors: {errors.join(', ')}</p>
+      </dd>
+      <dt>DateTimePicker</dt>
+      <dd>
+        <DateTimePicker
+          value={dateTime}
+          dateName="date"
+          timeName="time"
+          onChangeDateTime={(_dateTime, _other) => {
+            action('change')(_dateTime, _other)
+            setDateTime(_dateTime)
+          }}
+        />
+      </dd>
+      <dt>Disabled</dt>
+      <dd>
+        <TimePicker name="disabled_time" disabled />
+      </dd>
+    </List>
+  )
+}
+Time.storyName = 'time picker'
+
 const List = styled.dl`
   padding: 24px;
   margin: 0;
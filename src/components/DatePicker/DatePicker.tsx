@@ -13,12 +13,17 @@ import styled, { css } from 'styled-components'
 import { useId } from '../../hooks/useId'
 import { useOuterClick } from '../../hooks/useOuterClick'
 import { Theme, useTheme } from '../../hooks/useTheme'
-import { Calendar } from '../Calendar'
+import { Calendar, CalendarDecorator, CalendarEra, Granularity, WeekStartsOn } from '../Calendar'
 import { FaCalendarAltIcon } from '../Icon'
 import { Input } from '../Input'
 
 import { Portal } from './Portal'
-import { parseJpnDateString } from './datePickerHelper'
+import {
+  formatJapaneseEraDate,
+  parseJpnDateString,
+  parseJpnYearMonthString,
+  parseJpnYearString,
+} from './datePickerHelper'
 import { useClassNames } from './useClassNames'
 import { useGlobalKeyDown } from './useGlobalKeyDown'
 
@@ -45,6 +50,18 @@ type Props = {
   parseInput?: (input: string) => Date | null
   /** 表示する日付を独自にフォーマットする場合に、フォーマット処理を記述する関数 */
   formatDate?: (date: Date | null) => string
+  /**
+   * 選択する単位。`month` では「2024年5月」のように年月を、`year` では年を入力し、その期間の初日を選択した日付とする
+   */
+  granularity?: Granularity
+  /** 年の表記。`japanese` の場合は、入力欄とカレンダーを「令和6年5月1日」のように和暦で表記する */
+  calendarEra?: CalendarEra
+  /** カレンダーの曜日や見出しを表示する言語。`en-US` のような BCP 47 の言語タグで指定する */
+  locale?: string
+  /** カレンダーの週の始まりの曜日。0 が日曜日、1 が月曜日 */
+  weekStartsOn?: WeekStartsOn
+  /** カレンダー内のテキストを変更する関数 */
+  calendarDecorator?: CalendarDecorator
   /** 入出力用文字列と併記する別フォーマット処理を記述する関数 */
   showAlternative?: (date: Date | null) => string
   /** 選択された日付が変わった時に発火するコールバック関数 */
@@ -64,6 +81,17 @@ type InputAttributes = Omit<React.InputHTMLAttributes<HTMLInputElement>, OmitInp
 
 export const DEFAULT_FROM = new Date(1900, 0, 1)
 
+const DEFAULT_FORMATS: { [key in Granularity]: string } = {
+  day: 'YYYY/MM/DD',
+  month: 'YYYY年M月',
+  year: 'YYYY年',
+}
+const PARSERS: { [key in Granularity]: (str: string) => Date } = {
+  day: parseJpnDateString,
+  month: parseJpnYearMonthString,
+  year: parseJpnYearString,
+}
+
 export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
   (
     {
@@ -76,6 +104,11 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
       className = '',
       parseInput,
       formatDate,
+      granularity = 'day',
+      calendarEra = 'gregorian',
+      locale,
+      weekStartsOn,
+      calendarDecorator,
       showAlternative,
       onChangeDate,
       ...inputAttrs
@@ -87,9 +120,9 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
         if (!str) {
           return null
         }
-        return parseInput ? parseInput(str) : parseJpnDateString(str)
+        return parseInput ? parseInput(str) : PARSERS[granularity](str)
       },
-      [parseInput],
+      [granularity, parseInput],
     )
 
     const dateToString = useCallback(
@@ -100,9 +133,15 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
         if (!d) {
           return ''
         }
-        return dayjs(d).format('YYYY/MM/DD')
+        if (calendarEra === 'japanese') {
+          const formatted = formatJapaneseEraDate(d, granularity)
+          if (formatted) {
+            return formatted
+          }
+        }
+        return dayjs(d).format(DEFAULT_FORMATS[granularity])
       },
-      [formatDate],
+      [calendarEra, formatDate, granularity],
     )
 
     const dateToAlternativeFormat = useCallback(
@@ -160,6 +199,14 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
 
     const switchCalendarVisibility = useCallback((isVisible: boolean) => {
       if (!isVisible) {
+        if (
+          calendarPortalRef.current &&
+          calendarPortalRef.current.contains(document.activeElement) &&
+          inputRef.current
+        ) {
+          // カレンダーの中にフォーカスがある場合は、カレンダーを閉じるとフォーカスを見失うため入力欄に戻す
+          inputRef.current.focus()
+        }
         setIsCalendarShown(false)
         return
       }
@@ -204,7 +251,10 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
         if (e.key !== 'Tab' || !inputRef.current || !calendarPortalRef.current) {
           return
         }
-        const calendarButtons = calendarPortalRef.current.querySelectorAll('button')
+        // 矢印キーで移動する日付のボタンは、Tab キーでのフォーカスの移動の対象にしない
+        const calendarButtons = calendarPortalRef.current.querySelectorAll<HTMLButtonElement>(
+          'button:not([tabindex="-1"]):not(:disabled)',
+        )
         if (calendarButtons.length === 0) {
           return
         }
@@ -289,8 +339,7 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
                 updateDate(null)
                 return
               }
-              const newDate = parseInput ? parseInput(inputString) : parseJpnDateString(inputString)
-              updateDate(newDate)
+              updateDate(stringToDate(inputString))
             }}
             suffix={
               <InputSuffixLayout themes={themes}>
@@ -318,6 +367,11 @@ export const DatePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
               value={selectedDate || undefined}
               from={from}
               to={to}
+              granularity={granularity}
+              calendarEra={calendarEra}
+              locale={locale}
+              weekStartsOn={weekStartsOn}
+              decorator={calendarDecorator}
               onSelectDate={(_, selected) => {
                 updateDate(selected)
                 requestAnimationFrame(() => {
@@ -0,0 +1,370 @@
+import dayjs from 'dayjs'
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { useId } from '../../hooks/useId'
+import { useOuterClick } from '../../hooks/useOuterClick'
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { CalendarDecorator, RangeCalendar, WeekStartsOn } from '../Calendar'
+import { FaCalendarAltIcon } from '../Icon'
+import { Input } from '../Input'
+
+import { DEFAULT_FROM } from './DatePicker'
+import { Portal } from './Portal'
+import {
+  DateRange,
+  parseJpnDateRangeString,
+  parseJpnDateString,
+  validateDateRange,
+} from './datePickerHelper'
+import { useDateRangePickerClassNames } from './useClassNames'
+import { useGlobalKeyDown } from './useGlobalKeyDown'
+
+type Props = {
+  /** input 要素の `value` 属性の値。開始日と終了日を「〜」で区切った文字列 */
+  value?: string | null
+  /** input 要素の `name` 属性の値 */
+  name?: string
+  /** 選択可能な期間の開始日 */
+  from?: Date
+  /** 選択可能な期間の終了日 */
+  to?: Date
+  /** フォームを無効にするかどうか */
+  disabled?: boolean
+  /** フォームにエラーがあるかどうか */
+  error?: boolean
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /** 開始日と終了日の入力を独自にパースする場合に、パース処理を記述する関数 */
+  parseInput?: (input: string) => Date | null
+  /** 表示する日付を独自にフォーマットする場合に、フォーマット処理を記述する関数 */
+  formatDate?: (date: Date | null) => string
+  /** カレンダーの曜日や見出しを表示する言語。`en-US` のような BCP 47 の言語タグで指定する */
+  locale?: string
+  /** カレンダーの週の始まりの曜日。0 が日曜日、1 が月曜日 */
+  weekStartsOn?: WeekStartsOn
+  /** カレンダー内のテキストを変更する関数 */
+  calendarDecorator?: CalendarDecorator
+  /**
+   * 選択された期間が変わった時に発火するコールバック関数
+   * 開始日が終了日より後の場合は `INVALID_RANGE`、選択可能な期間外の場合は `OUT_OF_RANGE` が errors に含まれる
+   */
+  onChangeRange?: (range: DateRange, value: string, other: { errors: string[] }) => void
+}
+type OmitInputAttributes =
+  | keyof Props
+  | 'type'
+  | 'onChange'
+  | 'onKeyPress'
+  | 'onFocus'
+  | 'onBlur'
+  | 'aria-expanded'
+  | 'aria-controls'
+  | 'aria-haspopup'
+type InputAttributes = Omit<React.InputHTMLAttributes<HTMLInputElement>, OmitInputAttributes>
+
+const RANGE_SEPARATOR = ' 〜 '
+const EMPTY_RANGE: DateRange = { start: null, end: null }
+
+const isSameDate = (a: Date | null, b: Date | null) =>
+  a === b || (!!a && !!b && a.getTime() === b.getTime())
+
+export const DateRangePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
+  (
+    {
+      value,
+      name,
+      from = DEFAULT_FROM,
+      to,
+      disabled,
+      error,
+      className = '',
+      parseInput,
+      formatDate,
+      locale,
+      weekStartsOn,
+      calendarDecorator,
+      onChangeRange,
+      ...inputAttrs
+    },
+    ref,
+  ) => {
+    const stringToRange = useCallback(
+      (str?: string | null) => {
+        if (!str) {
+          return EMPTY_RANGE
+        }
+        return parseJpnDateRangeString(str, parseInput ?? parseJpnDateString)
+      },
+      [parseInput],
+    )
+
+    const rangeToString = useCallback(
+      ({ start, end }: DateRange) => {
+        const dateToString = (d: Date | null) => {
+          if (formatDate) {
+            return formatDate(d)
+          }
+          return d ? dayjs(d).format('YYYY/MM/DD') : ''
+        }
+        if (!start && !end) {
+          return ''
+        }
+        return `${dateToString(start)}${RANGE_SEPARATOR}${dateToString(end)}`.trim()
+      },
+      [formatDate],
+    )
+
+    const themes = useTheme()
+    const [selectedRange, setSelectedRange] = useState<DateRange>(stringToRange(value))
+    const inputRef = useRef<HTMLInputElement>(null)
+    const inputWrapperRef = useRef<HTMLDivElement>(null)
+    const calendarPortalRef = useRef<HTMLDivElement>(null)
+    const [inputRect, setInputRect] = useState<DOMRect | null>(null)
+    const [isInputFocused, setIsInputFocused] = useState(false)
+    const [isCalendarShown, setIsCalendarShown] = useState(false)
+    const calenderId = useId()
+
+    useImperativeHandle<HTMLInputElement | null, HTMLInputElement | null>(
+      ref,
+      () => inputRef.current,
+    )
+
+    const updateRange = useCallback(
+      (newRange: DateRange) => {
+        if (
+          !inputRef.current ||
+          (isSameDate(newRange.start, selectedRange.start) &&
+            isSameDate(newRange.end, selectedRange.end))
+        ) {
+          // Do not update range if the new range is same with the old one.
+          return
+        }
+
+        const errors = validateDateRange(newRange, from, to)
+        // 日付として不正な値は選択されていないものとして扱う
+        const nextRange = {
+          start: newRange.start && dayjs(newRange.start).isValid() ? newRange.start : null,
+          end: newRange.end && dayjs(newRange.end).isValid() ? newRange.end : null,
+        }
+
+        inputRef.current.value = rangeToString(nextRange)
+        setSelectedRange(nextRange)
+        onChangeRange && onChangeRange(nextRange, inputRef.current.value, { errors })
+      },
+      [from, onChangeRange, rangeToString, selectedRange, to],
+    )
+
+    const switchCalendarVisibility = useCallback((isVisible: boolean) => {
+      if (!isVisible) {
+        if (
+          calendarPortalRef.current &&
+          calendarPortalRef.current.contains(document.activeElement) &&
+          inputRef.current
+        ) {
+          // カレンダーの中にフォーカスがある場合は、カレンダーを閉じるとフォーカスを見失うため入力欄に戻す
+          inputRef.current.focus()
+        }
+        setIsCalendarShown(false)
+        return
+      }
+      if (!inputWrapperRef.current) {
+        return
+      }
+      setIsCalendarShown(true)
+      setInputRect(inputWrapperRef.current.getBoundingClientRect())
+    }, [])
+
+    useEffect(() => {
+      if (value === undefined || !inputRef.current) {
+        return
+      }
+      // 入力中は、与えられた値をフォーマットしない
+      if (!isInputFocused) {
+        const newRange = stringToRange(value)
+        const isValid = [newRange.start, newRange.end].every(
+          (date) => date === null || dayjs(date).isValid(),
+        )
+        if (isValid && (newRange.start || newRange.end)) {
+          inputRef.current.value = rangeToString(newRange)
+          setSelectedRange(newRange)
+          return
+        }
+        setSelectedRange(EMPTY_RANGE)
+      }
+      inputRef.current.value = value || ''
+    }, [value, isInputFocused, rangeToString, stringToRange])
+
+    useOuterClick(
+      [inputWrapperRef, calendarPortalRef],
+      useCallback(() => {
+        switchCalendarVisibility(false)
+      }, [switchCalendarVisibility]),
+    )
+
+    const handleKeyDown = useCallback(
+      (e: KeyboardEvent) => {
+        if (e.key !== 'Tab' || !inputRef.current || !calendarPortalRef.current) {
+          return
+        }
+        // 矢印キーで移動する日付のボタンは、Tab キーでのフォーカスの移動の対象にしない
+        const calendarButtons = calendarPortalRef.current.querySelectorAll<HTMLButtonElement>(
+          'button:not([tabindex="-1"]):not(:disabled)',
+        )
+        if (calendarButtons.length === 0) {
+          return
+        }
+        const firstCalendarButton = calendarButtons[0]
+        const lastCalendarButton = calendarButtons[calendarButtons.length - 1]
+        if (isInputFocused) {
+          if (e.shiftKey) {
+            // move focus from Input to previous elements of DateRangePicker
+            switchCalendarVisibility(false)
+            return
+          }
+          // move focus from Input to Calendar
+          e.preventDefault()
+          firstCalendarButton.focus()
+          return
+        }
+        const currentFocused = Array.from(calendarButtons).find((button) => button === e.target)
+        if (e.shiftKey && currentFocused === firstCalendarButton) {
+          // move focus from Calendar to Input
+          inputRef.current.focus()
+          e.preventDefault()
+        } else if (!e.shiftKey && currentFocused === lastCalendarButton) {
+          // move focus from Calendar to next elements of DateRangePicker
+          inputRef.current.focus()
+          switchCalendarVisibility(false)
+        }
+      },
+      [isInputFocused, switchCalendarVisibility],
+    )
+    useGlobalKeyDown(handleKeyDown)
+
+    const caretIconColor = useMemo(() => {
+      if (isInputFocused || isCalendarShown) return themes.color.TEXT_BLACK
+      if (disabled) return themes.color.TEXT_DISABLED
+      return themes.color.TEXT_GREY
+    }, [isCalendarShown, isInputFocused, disabled, themes])
+
+    const classNames = useDateRangePickerClassNames()
+
+    return (
+      <Container
+        className={`${className} ${classNames.wrapper}`}
+        onClick={() => {
+          if (!disabled && !isCalendarShown) {
+            switchCalendarVisibility(true)
+          }
+        }}
+        onKeyDown={(e) => {
+          if ((e.key === 'Escape' || e.key === 'Esc') && isCalendarShown) {
+            e.stopPropagation()
+            requestAnimationFrame(() => {
+              // delay hiding calendar because calendar will be displayed when input is focused
+              switchCalendarVisibility(false)
+            })
+            inputRef.current && inputRef.current.focus()
+          }
+        }}
+      >
+        <div ref={inputWrapperRef}>
+          <StyledInput
+            {...inputAttrs}
+            type="text"
+            name={name}
+            onChange={() => {
+              if (isCalendarShown) {
+                switchCalendarVisibility(false)
+              }
+            }}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                switchCalendarVisibility(!isCalendarShown)
+              }
+            }}
+            onFocus={() => {
+              setIsInputFocused(true)
+              switchCalendarVisibility(true)
+            }}
+            onBlur={(e) => {
+              setIsInputFocused(false)
+              updateRange(stringToRange(e.target.value))
+            }}
+            suffix={
+              <InputSuffixLayout themes={themes}>
+                <InputSuffixWrapper themes={themes}>
+                  <FaCalendarAltIcon color={caretIconColor} />
+                </InputSuffixWrapper>
+              </InputSuffixLayout>
+            }
+            disabled={disabled}
+            error={error}
+            ref={inputRef}
+            className={classNames.inputContainer}
+            aria-expanded={isCalendarShown}
+            aria-controls={calenderId}
+            aria-haspopup={true}
+          />
+        </div>
+        {isCalendarShown && inputRect && (
+          <Portal inputRect={inputRect} ref={calendarPortalRef}>
+            <RangeCalendar
+              id={calenderId}
+              value={selectedRange}
+              from={from}
+              to={to}
+              locale={locale}
+              weekStartsOn={weekStartsOn}
+              decorator={calendarDecorator}
+              onSelectRange={(_, selected) => {
+                updateRange(selected)
+                requestAnimationFrame(() => {
+                  // delay hiding calendar because calendar will be displayed when input is focused
+                  switchCalendarVisibility(false)
+                })
+                inputRef.current && inputRef.current.focus()
+              }}
+            />
+          </Portal>
+        )}
+      </Container>
+    )
+  },
+)
+
+const Container = styled.div`
+  display: inline-block;
+`
+const StyledInput = styled(Input)`
+  width: 100%;
+`
+const InputSuffixLayout = styled.span<{ themes: Theme }>(({ themes: { spacingByChar } }) => {
+  return css`
+    height: 100%;
+    padding: ${spacingByChar(0.5)} 0;
+    box-sizing: border-box;
+  `
+})
+const InputSuffixWrapper = styled.span<{ themes: Theme }>(({ themes }) => {
+  const { fontSize, color, spacingByChar } = themes
+  return css`
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-sizing: border-box;
+    height: 100%;
+    padding-left: ${spacingByChar(0.5)};
+    border-left: 1px solid ${color.BORDER};
+    font-size: ${fontSize.M};
+  `
+})
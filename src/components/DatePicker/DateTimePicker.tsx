@@ -0,0 +1,164 @@
+import dayjs from 'dayjs'
+import React, { HTMLAttributes, VFC, useCallback, useEffect, useRef, useState } from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+
+import { DatePicker } from './DatePicker'
+import { TimePicker } from './TimePicker'
+import { Time, formatTime } from './datePickerHelper'
+import { useDateTimePickerClassNames } from './useClassNames'
+
+type Props = {
+  /** 選択された日時 */
+  value?: Date | null
+  /** 日付の input 要素の `name` 属性の値 */
+  dateName?: string
+  /** 時刻の input 要素の `name` 属性の値 */
+  timeName?: string
+  /** 選択可能な期間の開始日 */
+  from?: Date
+  /** 選択可能な期間の終了日 */
+  to?: Date
+  /** 選択可能な最も早い時刻。「09:00」のような 24 時間表記で指定する */
+  minTime?: string
+  /** 選択可能な最も遅い時刻。「18:00」のような 24 時間表記で指定する */
+  maxTime?: string
+  /** 時刻の選択肢の間隔（分）。指定した場合は、この間隔に合わない時刻が入力されると `INVALID_STEP` が errors に含まれる */
+  step?: number
+  /** フォームを無効にするかどうか */
+  disabled?: boolean
+  /** フォームにエラーがあるかどうか */
+  error?: boolean
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    dateInputLabel?: (text: string) => string
+    timeInputLabel?: (text: string) => string
+  }
+  /**
+   * 選択された日時が変わった時に発火するコールバック関数
+   * 日付と時刻のどちらかが未入力の場合は null が渡される。errors には日付と時刻それぞれのエラーが含まれる
+   */
+  onChangeDateTime?: (dateTime: Date | null, other: { errors: string[] }) => void
+}
+type ElementProps = Omit<HTMLAttributes<HTMLDivElement>, keyof Props>
+
+const DATE_INPUT_LABEL = '日付'
+const TIME_INPUT_LABEL = '時刻'
+
+const toDateTime = (date: Date | null, time: Time | null) =>
+  date && time
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), time.hours, time.minutes)
+    : null
+
+const toTime = (value: Date | null | undefined) =>
+  value ? { hours: value.getHours(), minutes: value.getMinutes() } : null
+
+const toInputValues = (value: Date | null | undefined) => ({
+  date: value ? dayjs(value).format('YYYY/MM/DD') : '',
+  time: value ? formatTime({ hours: value.getHours(), minutes: value.getMinutes() }) : '',
+})
+
+export const DateTimePicker: VFC<Props & ElementProps> = ({
+  value,
+  dateName,
+  timeName,
+  from,
+  to,
+  minTime,
+  maxTime,
+  step,
+  disabled,
+  error,
+  className = '',
+  decorator = {},
+  onChangeDateTime,
+  ...props
+}) => {
+  const themes = useTheme()
+  const classNames = useDateTimePickerClassNames()
+  // 日付と時刻は別々に入力されるため、もう一方の入力値とエラーを保持しておく
+  const dateRef = useRef<Date | null>(value ?? null)
+  const timeRef = useRef<Time | null>(toTime(value))
+  const errorsRef = useRef<{ date: string[]; time: string[] }>({ date: [], time: [] })
+  // DatePicker と TimePicker に渡す値。片方だけが入力された状態を保つため、入力された値も反映する
+  const [inputValues, setInputValues] = useState(toInputValues(value))
+
+  useEffect(() => {
+    if (value === undefined) {
+      return
+    }
+    const current = toDateTime(dateRef.current, timeRef.current)
+    if (value === current || (value && current && value.getTime() === current.getTime())) {
+      // 入力途中で null が渡された場合などに、入力された値を消さないようにする
+      return
+    }
+    dateRef.current = value
+    timeRef.current = toTime(value)
+    setInputValues(toInputValues(value))
+  }, [value])
+
+  const handleChange = useCallback(() => {
+    onChangeDateTime &&
+      onChangeDateTime(toDateTime(dateRef.current, timeRef.current), {
+        errors: [...errorsRef.current.date, ...errorsRef.current.time],
+      })
+  }, [onChangeDateTime])
+
+  return (
+    <Wrapper
+      {...props}
+      role="group"
+      themes={themes}
+      className={`${className} ${classNames.wrapper}`}
+    >
+      <DatePicker
+        name={dateName}
+        value={value === undefined ? undefined : inputValues.date}
+        from={from}
+        to={to}
+        disabled={disabled}
+        error={error}
+        aria-label={
+          decorator.dateInputLabel ? decorator.dateInputLabel(DATE_INPUT_LABEL) : DATE_INPUT_LABEL
+        }
+        className={classNames.datePicker}
+        onChangeDate={(date, dateValue, { errors }) => {
+          dateRef.current = date
+          errorsRef.current.date = errors
+          setInputValues((current) => ({ ...current, date: dateValue }))
+          handleChange()
+        }}
+      />
+      <TimePicker
+        name={timeName}
+        value={value === undefined ? undefined : inputValues.time}
+        min={minTime}
+        max={maxTime}
+        step={step}
+        disabled={disabled}
+        error={error}
+        aria-label={
+          decorator.timeInputLabel ? decorator.timeInputLabel(TIME_INPUT_LABEL) : TIME_INPUT_LABEL
+        }
+        className={classNames.timePicker}
+        onChangeTime={(time, timeValue, { errors }) => {
+          timeRef.current = time
+          errorsRef.current.time = errors
+          setInputValues((current) => ({ ...current, time: timeValue }))
+          handleChange()
+        }}
+      />
+    </Wrapper>
+  )
+}
+
+const Wrapper = styled.div<{ themes: Theme }>(({ themes: { spacingByChar } }) => {
+  return css`
+    display: inline-flex;
+    align-items: center;
+    gap: ${spacingByChar(0.5)};
+  `
+})
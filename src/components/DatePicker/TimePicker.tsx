@@ -0,0 +1,439 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { useId } from '../../hooks/useId'
+import { useOuterClick } from '../../hooks/useOuterClick'
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { UnstyledButton } from '../Button'
+import { FaRegClockIcon } from '../Icon'
+import { Input } from '../Input'
+
+import { Portal } from './Portal'
+import {
+  Time,
+  formatTime,
+  getTimeOptions,
+  isAfterTime,
+  parseTimeString,
+  validateTime,
+} from './datePickerHelper'
+import { useTimePickerClassNames } from './useClassNames'
+import { useGlobalKeyDown } from './useGlobalKeyDown'
+
+type Props = {
+  /** input 要素の `value` 属性の値。「09:30」のような 24 時間表記の時刻 */
+  value?: string | null
+  /** input 要素の `name` 属性の値 */
+  name?: string
+  /** 選択可能な最も早い時刻。「09:00」のような 24 時間表記で指定する。解釈できない場合や `max` より後の場合はコンソールにエラーを出力する */
+  min?: string
+  /** 選択可能な最も遅い時刻。「18:00」のような 24 時間表記で指定する。解釈できない場合はコンソールにエラーを出力する */
+  max?: string
+  /**
+   * 選択肢の間隔（分）。省略した場合は 15 分ごとの選択肢を表示し、間隔に合わない時刻も入力できる
+   * 指定した場合は、この間隔に合わない時刻が入力されると `INVALID_STEP` が errors に含まれる
+   */
+  step?: number
+  /** フォームを無効にするかどうか */
+  disabled?: boolean
+  /** フォームにエラーがあるかどうか */
+  error?: boolean
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /**
+   * 選択された時刻が変わった時に発火するコールバック関数
+   * 時刻として不正な場合は `INVALID_TIME`、選択可能な時刻の範囲外の場合は `OUT_OF_RANGE` が errors に含まれる
+   */
+  onChangeTime?: (time: Time | null, value: string, other: { errors: string[] }) => void
+}
+type OmitInputAttributes =
+  | keyof Props
+  | 'type'
+  | 'onChange'
+  | 'onKeyPress'
+  | 'onFocus'
+  | 'onBlur'
+  | 'aria-expanded'
+  | 'aria-controls'
+  | 'aria-haspopup'
+type InputAttributes = Omit<React.InputHTMLAttributes<HTMLInputElement>, OmitInputAttributes>
+
+const DEFAULT_STEP = 15
+// PageUp / PageDown キーで移動する選択肢の数
+const OPTIONS_PER_PAGE = 4
+
+const isSameTime = (a: Time | null, b: Time | null) =>
+  a === b || (!!a && !!b && a.hours === b.hours && a.minutes === b.minutes)
+
+export const TimePicker = forwardRef<HTMLInputElement, Props & InputAttributes>(
+  (
+    { value, name, min, max, step, disabled, error, className = '', onChangeTime, ...inputAttrs },
+    ref,
+  ) => {
+    const themes = useTheme()
+    const [selectedTime, setSelectedTime] = useState<Time | null>(
+      value ? parseTimeString(value) : null,
+    )
+    const inputRef = useRef<HTMLInputElement>(null)
+    const inputWrapperRef = useRef<HTMLDivElement>(null)
+    const listPortalRef = useRef<HTMLDivElement>(null)
+    const timeListRef = useRef<HTMLDivElement>(null)
+    // Tab キーでフォーカスできる選択肢。それ以外の選択肢には矢印キーで移動する
+    const tabbableOptionRef = useRef<HTMLButtonElement>(null)
+    const [focusedIndex, setFocusedIndex] = useState<number | null>(null)
+    const [inputRect, setInputRect] = useState<DOMRect | null>(null)
+    const [isInputFocused, setIsInputFocused] = useState(false)
+    const [isListShown, setIsListShown] = useState(false)
+    const listId = useId()
+    const minTime = useMemo(() => (min ? parseTimeString(min) : null), [min])
+    const maxTime = useMemo(() => (max ? parseTimeString(max) : null), [max])
+    const options = useMemo(
+      () => getTimeOptions(step ?? DEFAULT_STEP, minTime, maxTime),
+      [maxTime, minTime, step],
+    )
+    const selectedIndex = options.findIndex((option) => isSameTime(option, selectedTime))
+    const tabbableIndex = focusedIndex ?? Math.max(selectedIndex, 0)
+
+    useEffect(() => {
+      // 指定を誤ると選択肢が表示されないため、気づけるようにエラーを出力する
+      if (min && !minTime) {
+        console.error(
+          `SmartHR UI: the min props of TimePicker accepts a time like "09:00", not "${min}"`,
+        )
+      }
+      if (max && !maxTime) {
+        console.error(
+          `SmartHR UI: the max props of TimePicker accepts a time like "18:00", not "${max}"`,
+        )
+      }
+      if (minTime && maxTime && isAfterTime(minTime, maxTime)) {
+        console.error(
+          'SmartHR UI: the min props of TimePicker must not be later than the max props',
+        )
+      }
+    }, [max, maxTime, min, minTime])
+
+    useImperativeHandle<HTMLInputElement | null, HTMLInputElement | null>(
+      ref,
+      () => inputRef.current,
+    )
+
+    const updateTime = useCallback(
+      (newTime: Time | null, inputString: string) => {
+        if (!inputRef.current) {
+          return
+        }
+        const isValid = inputString === '' || newTime !== null
+        if (isValid && isSameTime(newTime, selectedTime)) {
+          // Do not update time if the new time is same with the old one.
+          inputRef.current.value = newTime ? formatTime(newTime) : ''
+          return
+        }
+
+        const errors: string[] = []
+        if (!isValid) {
+          errors.push('INVALID_TIME')
+        } else if (newTime) {
+          errors.push(...validateTime(newTime, { step, min: minTime, max: maxTime }))
+        }
+
+        inputRef.current.value = newTime ? formatTime(newTime) : ''
+        setSelectedTime(newTime)
+        onChangeTime && onChangeTime(newTime, inputRef.current.value, { errors })
+      },
+      [maxTime, minTime, onChangeTime, selectedTime, step],
+    )
+
+    const switchListVisibility = useCallback((isVisible: boolean) => {
+      if (!isVisible) {
+        setIsListShown(false)
+        return
+      }
+      if (!inputWrapperRef.current) {
+        return
+      }
+      setIsListShown(true)
+      setInputRect(inputWrapperRef.current.getBoundingClientRect())
+    }, [])
+
+    useEffect(() => {
+      if (value === undefined || !inputRef.current) {
+        return
+      }
+      // 入力中は、与えられた値をフォーマットしない
+      if (!isInputFocused) {
+        const newTime = value ? parseTimeString(value) : null
+        if (newTime) {
+          inputRef.current.value = formatTime(newTime)
+          setSelectedTime(newTime)
+          return
+        }
+        setSelectedTime(null)
+      }
+      inputRef.current.value = value || ''
+    }, [value, isInputFocused])
+
+    useLayoutEffect(() => {
+      // 選択されている時刻が見えるように、一覧をスクロールする
+      const list = timeListRef.current
+      const option = tabbableOptionRef.current
+      if (isListShown && list && option) {
+        list.scrollTop = option.offsetTop - list.offsetTop - list.clientHeight / 2
+      }
+      if (!isListShown) {
+        setFocusedIndex(null)
+      }
+    }, [isListShown])
+
+    useEffect(() => {
+      // キーボード操作で移動した選択肢にフォーカスする
+      if (focusedIndex !== null) {
+        tabbableOptionRef.current?.focus()
+      }
+    }, [focusedIndex])
+
+    const handleOptionKeyDown = useCallback(
+      (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+        const lastIndex = options.length - 1
+        const nextIndex = {
+          ArrowDown: index + 1,
+          ArrowUp: index - 1,
+          PageDown: index + OPTIONS_PER_PAGE,
+          PageUp: index - OPTIONS_PER_PAGE,
+          Home: 0,
+          End: lastIndex,
+        }[e.key]
+        if (nextIndex === undefined) {
+          return
+        }
+        e.preventDefault()
+        setFocusedIndex(Math.min(Math.max(nextIndex, 0), lastIndex))
+      },
+      [options.length],
+    )
+
+    useOuterClick(
+      [inputWrapperRef, listPortalRef],
+      useCallback(() => {
+        switchListVisibility(false)
+      }, [switchListVisibility]),
+    )
+
+    const handleKeyDown = useCallback(
+      (e: KeyboardEvent) => {
+        if (e.key !== 'Tab' || !inputRef.current || !listPortalRef.current) {
+          return
+        }
+        const tabbableOption = tabbableOptionRef.current
+        if (!tabbableOption) {
+          return
+        }
+        if (isInputFocused) {
+          if (e.shiftKey) {
+            // move focus from Input to previous elements of TimePicker
+            switchListVisibility(false)
+            return
+          }
+          // move focus from Input to the list of times
+          e.preventDefault()
+          tabbableOption.focus()
+          return
+        }
+        // 選択肢の間は矢印キーで移動するため、Tab キーでは一覧から抜ける
+        const isOptionFocused = e.target instanceof Node && listPortalRef.current.contains(e.target)
+        if (e.shiftKey && isOptionFocused) {
+          // move focus from the list of times to Input
+          inputRef.current.focus()
+          e.preventDefault()
+        } else if (!e.shiftKey && isOptionFocused) {
+          // move focus from the list of times to next elements of TimePicker
+          inputRef.current.focus()
+          switchListVisibility(false)
+        }
+      },
+      [isInputFocused, switchListVisibility],
+    )
+    useGlobalKeyDown(handleKeyDown)
+
+    const caretIconColor = useMemo(() => {
+      if (isInputFocused || isListShown) return themes.color.TEXT_BLACK
+      if (disabled) return themes.color.TEXT_DISABLED
+      return themes.color.TEXT_GREY
+    }, [isListShown, isInputFocused, disabled, themes])
+
+    const classNames = useTimePickerClassNames()
+
+    return (
+      <Container
+        className={`${className} ${classNames.wrapper}`}
+        onClick={() => {
+          if (!disabled && !isListShown) {
+            switchListVisibility(true)
+          }
+        }}
+        onKeyDown={(e) => {
+          if ((e.key === 'Escape' || e.key === 'Esc') && isListShown) {
+            e.stopPropagation()
+            requestAnimationFrame(() => {
+              // delay hiding the list because the list will be displayed when input is focused
+              switchListVisibility(false)
+            })
+            inputRef.current && inputRef.current.focus()
+          }
+        }}
+      >
+        <div ref={inputWrapperRef}>
+          <StyledInput
+            {...inputAttrs}
+            type="text"
+            inputMode="numeric"
+            name={name}
+            onChange={() => {
+              if (isListShown) {
+                switchListVisibility(false)
+              }
+            }}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                switchListVisibility(!isListShown)
+              }
+            }}
+            onFocus={() => {
+              setIsInputFocused(true)
+              switchListVisibility(true)
+            }}
+            onBlur={(e) => {
+              setIsInputFocused(false)
+              const inputString = e.target.value.trim()
+              updateTime(inputString === '' ? null : parseTimeString(inputString), inputString)
+            }}
+            suffix={
+              <InputSuffixLayout themes={themes}>
+                <InputSuffixWrapper themes={themes}>
+                  <FaRegClockIcon color={caretIconColor} />
+                </InputSuffixWrapper>
+              </InputSuffixLayout>
+            }
+            disabled={disabled}
+            error={error}
+            ref={inputRef}
+            className={classNames.inputContainer}
+            aria-expanded={isListShown}
+            aria-controls={listId}
+            aria-haspopup="listbox"
+          />
+        </div>
+        {isListShown && inputRect && (
+          <Portal inputRect={inputRect} ref={listPortalRef}>
+            <TimeList
+              id={listId}
+              role="listbox"
+              aria-label={inputAttrs['aria-label']}
+              aria-labelledby={inputAttrs['aria-labelledby']}
+              themes={themes}
+              ref={timeListRef}
+              className={classNames.timeList}
+            >
+              {options.map((option, index) => {
+                const formatted = formatTime(option)
+                const isTabbable = index === tabbableIndex
+                return (
+                  <TimeButton
+                    key={formatted}
+                    themes={themes}
+                    type="button"
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    tabIndex={isTabbable ? 0 : -1}
+                    ref={isTabbable ? tabbableOptionRef : null}
+                    onKeyDown={(e) => handleOptionKeyDown(e, index)}
+                    onClick={() => {
+                      updateTime(option, formatted)
+                      requestAnimationFrame(() => {
+                        // delay hiding the list because the list will be displayed when input is focused
+                        switchListVisibility(false)
+                      })
+                      inputRef.current && inputRef.current.focus()
+                    }}
+                    className={classNames.selectTime}
+                  >
+                    {formatted}
+                  </TimeButton>
+                )
+              })}
+            </TimeList>
+          </Portal>
+        )}
+      </Container>
+    )
+  },
+)
+
+const Container = styled.div`
+  display: inline-block;
+`
+const StyledInput = styled(Input)`
+  width: 100%;
+`
+const InputSuffixLayout = styled.span<{ themes: Theme }>(({ themes: { spacingByChar } }) => {
+  return css`
+    height: 100%;
+    padding: ${spacingByChar(0.5)} 0;
+    box-sizing: border-box;
+  `
+})
+const InputSuffixWrapper = styled.span<{ themes: Theme }>(({ themes }) => {
+  const { fontSize, color, spacingByChar } = themes
+  return css`
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-sizing: border-box;
+    height: 100%;
+    padding-left: ${spacingByChar(0.5)};
+    border-left: 1px solid ${color.BORDER};
+    font-size: ${fontSize.M};
+  `
+})
+const TimeList = styled.div<{ themes: Theme }>(({ themes }) => {
+  const { color, shadow, spacingByChar } = themes
+  return css`
+    display: flex;
+    flex-direction: column;
+    max-height: 15rem;
+    padding: ${spacingByChar(0.5)} 0;
+    border-radius: 6px;
+    box-sizing: border-box;
+    background-color: ${color.WHITE};
+    box-shadow: ${shadow.LAYER3};
+    overflow-y: auto;
+  `
+})
+const TimeButton = styled(UnstyledButton)<{ themes: Theme }>(({ themes }) => {
+  const { color, fontSize, leading, spacingByChar } = themes
+  return css`
+    padding: ${spacingByChar(0.5)} ${spacingByChar(1.5)};
+    color: ${color.TEXT_BLACK};
+    font-size: ${fontSize.M};
+    line-height: ${leading.NONE};
+    text-align: left;
+    cursor: pointer;
+
+    &:hover {
+      background-color: ${color.hoverColor(color.WHITE)};
+    }
+    &[aria-selected='true'] {
+      background-color: ${color.MAIN};
+      color: ${color.TEXT_WHITE};
+    }
+  `
+})
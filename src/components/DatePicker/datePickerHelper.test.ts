@@ -1,4 +1,16 @@
-import { parseJpnDateString } from './datePickerHelper'
+import {
+  formatJapaneseEraDate,
+  formatTime,
+  getTimeOptions,
+  isAfterTime,
+  parseJpnDateRangeString,
+  parseJpnDateString,
+  parseJpnYearMonthString,
+  parseJpnYearString,
+  parseTimeString,
+  validateDateRange,
+  validateTime,
+} from './datePickerHelper'
 
 describe('datePickerHelper', () => {
   describe('parseJpnDateString', () => {
@@ -42,6 +54,11 @@ describe('datePickerHelper', () => {
       expect(parseJpnDateString('Ｒ2-1-1')).toEqual(expected)
     })
 
+    it('parse a date string of the first year of japanese era', () => {
+      expect(parseJpnDateString('令和元年5月1日')).toEqual(new Date(2019, 4, 1))
+      expect(parseJpnDateString('平成元年1月8日')).toEqual(new Date(1989, 0, 8))
+    })
+
     it('parse a date string of japanese era that is an expected format', () => {
       const expected = new Date(2020, 0, 1)
       expect(parseJpnDateString('r2:1:1')).toEqual(expected)
@@ -68,4 +85,190 @@ describe('datePickerHelper', () => {
       expect(parseJpnDateString('1999:12:31')).toEqual(new Date(1999, 11, 31))
     })
   })
+
+  describe('parseJpnYearMonthString', () => {
+    it('parse a year-month string to the first day of the month', () => {
+      const expected = new Date(2024, 4, 1)
+      expect(parseJpnYearMonthString('令和6年5月')).toEqual(expected)
+      expect(parseJpnYearMonthString('R6.5')).toEqual(expected)
+      expect(parseJpnYearMonthString('r6/05')).toEqual(expected)
+      expect(parseJpnYearMonthString('2024-05')).toEqual(expected)
+      expect(parseJpnYearMonthString('2024年5月')).toEqual(expected)
+      expect(parseJpnYearMonthString('２０２４年５月')).toEqual(expected)
+      expect(parseJpnYearMonthString('令和元年5月')).toEqual(new Date(2019, 4, 1))
+    })
+
+    it('parse a date string to the first day of the month', () => {
+      const expected = new Date(2024, 4, 1)
+      expect(parseJpnYearMonthString('2024/05/20')).toEqual(expected)
+      expect(parseJpnYearMonthString('令和6年5月20日')).toEqual(expected)
+    })
+
+    it('return an invalid date for an invalid string', () => {
+      expect(isNaN(parseJpnYearMonthString('2024年13月').getTime())).toBe(true)
+      expect(isNaN(parseJpnYearMonthString('abc').getTime())).toBe(true)
+    })
+  })
+
+  describe('parseJpnYearString', () => {
+    it('parse a year string to the first day of the year', () => {
+      const expected = new Date(2024, 0, 1)
+      expect(parseJpnYearString('令和6年')).toEqual(expected)
+      expect(parseJpnYearString('R6')).toEqual(expected)
+      expect(parseJpnYearString('2024')).toEqual(expected)
+      expect(parseJpnYearString('2024年')).toEqual(expected)
+      expect(parseJpnYearString('令和6年5月')).toEqual(expected)
+      expect(parseJpnYearString('2024/05/20')).toEqual(expected)
+      expect(parseJpnYearString('令和元年')).toEqual(new Date(2019, 0, 1))
+    })
+  })
+
+  describe('formatJapaneseEraDate', () => {
+    it('format a date in japanese era', () => {
+      expect(formatJapaneseEraDate(new Date(2024, 4, 1), 'day')).toBe('令和6年5月1日')
+      expect(formatJapaneseEraDate(new Date(2019, 3, 30), 'day')).toBe('平成31年4月30日')
+      expect(formatJapaneseEraDate(new Date(2019, 4, 1), 'day')).toBe('令和元年5月1日')
+      expect(formatJapaneseEraDate(new Date(2019, 4, 1), 'month')).toBe('令和元年5月')
+      expect(formatJapaneseEraDate(new Date(2019, 0, 1), 'year')).toBe('平成31年')
+    })
+
+    it('format a formatted string that can be parsed', () => {
+      const date = new Date(2019, 4, 1)
+      expect(parseJpnDateString(formatJapaneseEraDate(date, 'day') as string)).toEqual(date)
+      expect(parseJpnYearMonthString(formatJapaneseEraDate(date, 'month') as string)).toEqual(date)
+    })
+  })
+
+  describe('parseJpnDateRangeString', () => {
+    it('parse a range string separated by a tilde or から', () => {
+      const expected = { start: new Date(2024, 3, 1), end: new Date(2024, 3, 30) }
+      expect(parseJpnDateRangeString('2024/4/1 〜 2024/4/30')).toEqual(expected)
+      expect(parseJpnDateRangeString('2024/4/1~2024/4/30')).toEqual(expected)
+      expect(parseJpnDateRangeString('2024-4-1 - 2024-4-30')).toEqual(expected)
+      expect(parseJpnDateRangeString('令和6年4月1日から令和6年4月30日')).toEqual(expected)
+    })
+
+    it('parse a range string separated by a hyphen without spaces', () => {
+      const expected = { start: new Date(2024, 4, 1), end: new Date(2024, 4, 31) }
+      expect(parseJpnDateRangeString('2024/05/01-2024/05/31')).toEqual(expected)
+      expect(parseJpnDateRangeString('2024-05-01-2024-05-31')).toEqual(expected)
+      expect(parseJpnDateRangeString('令和6年5月1日-令和6年5月31日')).toEqual(expected)
+      // 1 つの日付の中のハイフンでは区切らない
+      expect(parseJpnDateRangeString('2024-05-01')).toEqual({
+        start: new Date(2024, 4, 1),
+        end: null,
+      })
+    })
+
+    it('parse a range string that has only a start date', () => {
+      expect(parseJpnDateRangeString('r6.4.1')).toEqual({ start: new Date(2024, 3, 1), end: null })
+      expect(parseJpnDateRangeString('r6.4.1 〜')).toEqual({
+        start: new Date(2024, 3, 1),
+        end: null,
+      })
+      expect(parseJpnDateRangeString('')).toEqual({ start: null, end: null })
+    })
+  })
+
+  describe('validateDateRange', () => {
+    const from = new Date(2024, 0, 1)
+    const to = new Date(2024, 11, 31)
+
+    it('return no errors for a valid range', () => {
+      expect(
+        validateDateRange({ start: new Date(2024, 3, 1), end: new Date(2024, 3, 1) }, from, to),
+      ).toEqual([])
+      expect(validateDateRange({ start: null, end: null }, from, to)).toEqual([])
+    })
+
+    it('return errors for an invalid range', () => {
+      expect(validateDateRange({ start: new Date(2024, 3, NaN), end: null }, from, to)).toEqual([
+        'INVALID_DATE',
+      ])
+      expect(
+        validateDateRange({ start: new Date(2024, 3, 2), end: new Date(2024, 3, 1) }, from, to),
+      ).toEqual(['INVALID_RANGE'])
+      expect(
+        validateDateRange({ start: new Date(2023, 11, 31), end: new Date(2024, 3, 1) }, from, to),
+      ).toEqual(['OUT_OF_RANGE'])
+    })
+  })
+
+  describe('parseTimeString', () => {
+    it('parse a time string', () => {
+      const expected = { hours: 9, minutes: 30 }
+      expect(parseTimeString('9:30')).toEqual(expected)
+      expect(parseTimeString('09:30')).toEqual(expected)
+      expect(parseTimeString('０９：３０')).toEqual(expected)
+      expect(parseTimeString('0930')).toEqual(expected)
+      expect(parseTimeString('930')).toEqual(expected)
+      expect(parseTimeString('9時30分')).toEqual(expected)
+      expect(parseTimeString('9時')).toEqual({ hours: 9, minutes: 0 })
+      expect(parseTimeString('23')).toEqual({ hours: 23, minutes: 0 })
+    })
+
+    it('return null for an invalid time string', () => {
+      expect(parseTimeString('24:00')).toBeNull()
+      expect(parseTimeString('9:60')).toBeNull()
+      expect(parseTimeString('9:3:0')).toBeNull()
+      expect(parseTimeString('abc')).toBeNull()
+    })
+  })
+
+  describe('formatTime', () => {
+    it('format a time in 24-hour notation', () => {
+      expect(formatTime({ hours: 9, minutes: 5 })).toBe('09:05')
+      expect(formatTime({ hours: 18, minutes: 30 })).toBe('18:30')
+    })
+  })
+
+  describe('getTimeOptions', () => {
+    it('return times at the given step between min and max', () => {
+      expect(
+        getTimeOptions(15, { hours: 9, minutes: 0 }, { hours: 10, minutes: 0 }).map(formatTime),
+      ).toEqual(['09:00', '09:15', '09:30', '09:45', '10:00'])
+      expect(getTimeOptions(30)).toHaveLength(48)
+    })
+
+    it('treat a non-positive or fractional step as 1 minute', () => {
+      expect(getTimeOptions(0)).toHaveLength(24 * 60)
+      expect(getTimeOptions(7.5)).toHaveLength(24 * 60)
+      expect(getTimeOptions(7.5).map(formatTime)[1]).toBe('00:01')
+    })
+  })
+
+  describe('isAfterTime', () => {
+    it('compare two times', () => {
+      expect(isAfterTime({ hours: 18, minutes: 0 }, { hours: 9, minutes: 0 })).toBe(true)
+      expect(isAfterTime({ hours: 9, minutes: 0 }, { hours: 9, minutes: 0 })).toBe(false)
+    })
+  })
+
+  describe('validateTime', () => {
+    const min = { hours: 9, minutes: 0 }
+    const max = { hours: 18, minutes: 0 }
+
+    it('return no errors for a valid time', () => {
+      expect(validateTime({ hours: 9, minutes: 30 }, { step: 15, min, max })).toEqual([])
+    })
+
+    it('return errors for an invalid time', () => {
+      expect(validateTime({ hours: 8, minutes: 45 }, { step: 15, min, max })).toEqual([
+        'OUT_OF_RANGE',
+      ])
+      expect(validateTime({ hours: 9, minutes: 10 }, { step: 15, min, max })).toEqual([
+        'INVALID_STEP',
+      ])
+    })
+
+    it('treat a non-positive or fractional step as 1 minute', () => {
+      expect(validateTime({ hours: 9, minutes: 10 }, { step: 0, min, max })).toEqual([])
+      expect(validateTime({ hours: 9, minutes: 10 }, { step: -5, min, max })).toEqual([])
+      expect(validateTime({ hours: 9, minutes: 10 }, { step: 7.5, min, max })).toEqual([])
+    })
+
+    it('does not validate the step when it is not given', () => {
+      expect(validateTime({ hours: 9, minutes: 7 }, { min, max })).toEqual([])
+    })
+  })
 })
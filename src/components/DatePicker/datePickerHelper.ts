@@ -1,12 +1,69 @@
 import { warekiToDate } from '@smarthr/wareki'
 import dayjs from 'dayjs'
 
+import { getJapaneseEraYear } from '../../libs/japaneseEra'
+import { Granularity } from '../Calendar'
+
 export function parseJpnDateString(dateString: string): Date {
-  const { isValid, result, formatted } = warekiToDate(dateString)
+  // 「令和元年」のような元年の表記は @smarthr/wareki でパースできないため、「令和1年」として扱う
+  const { isValid, result, formatted } = warekiToDate(dateString.replace(/元(\s*年)/, '1$1'))
 
   return isValid ? result : dayjs(formatted).toDate()
 }
 
+// 「令和6年5月」「R6.5」「2024-05」「2024年5月」のように、年と月だけを指定した文字列
+const YEAR_MONTH_PATTERN = /^([^\d]*\d{1,4})\s*[年./-]\s*(\d{1,2})\s*月?$/
+// 「令和6年」「R6」「2024」のように、年だけを指定した文字列
+const YEAR_PATTERN = /^([^\d]*\d{1,4})\s*年?$/
+
+// 全角の数字や記号を半角にし、「元年」を「1年」として扱う
+const normalizeJpnDateString = (dateString: string) =>
+  dateString
+    .normalize('NFKC')
+    .trim()
+    .replace(/元(\s*年)/, '1$1')
+
+/** 年月を表す文字列をパースし、その月の初日を返す */
+export function parseJpnYearMonthString(yearMonthString: string): Date {
+  const normalized = normalizeJpnDateString(yearMonthString)
+  const matched = normalized.match(YEAR_MONTH_PATTERN)
+  if (matched && (Number(matched[2]) < 1 || Number(matched[2]) > 12)) {
+    return new Date(NaN, 0, 1)
+  }
+  const date = matched
+    ? parseJpnDateString(`${matched[1]}年${matched[2]}月1日`)
+    : parseJpnDateString(normalized)
+
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+/** 年を表す文字列をパースし、その年の初日を返す */
+export function parseJpnYearString(yearString: string): Date {
+  const normalized = normalizeJpnDateString(yearString)
+  const matched = normalized.match(YEAR_PATTERN)
+  const date = matched
+    ? parseJpnDateString(`${matched[1]}年1月1日`)
+    : parseJpnYearMonthString(normalized)
+
+  return new Date(date.getFullYear(), 0, 1)
+}
+
+/** 日付を「令和6年5月1日」のように和暦で表記する。和暦で表せない日付の場合は null を返す */
+export function formatJapaneseEraDate(date: Date, granularity: Granularity): string | null {
+  const eraYear = getJapaneseEraYear(date)
+  if (!eraYear) {
+    return null
+  }
+  switch (granularity) {
+    case 'year':
+      return eraYear
+    case 'month':
+      return `${eraYear}${date.getMonth() + 1}月`
+    default:
+      return `${eraYear}${date.getMonth() + 1}月${date.getDate()}日`
+  }
+}
+
 export function getPortalPosition(inputRect: DOMRect, contentHeihgt: number) {
   const margin = 4
   const { innerHeight, pageYOffset } = window
@@ -28,3 +85,136 @@ export function getPortalPosition(inputRect: DOMRect, contentHeihgt: number) {
     left,
   }
 }
+
+export type DateRange = {
+  start: Date | null
+  end: Date | null
+}
+
+// 「〜」「~」「から」や、前後に空白のあるハイフンで期間の開始日と終了日を区切る
+const DATE_RANGE_SEPARATOR = /\s*(?:[〜～~]|から|\s[-－–]\s)\s*/
+
+// 「2024/05/01-2024/05/31」のような空白のないハイフン。日付の中の区切りにも使われるため、
+// 両側がそれぞれ年月日の揃った日付として読める位置でのみ期間の区切りとして扱う
+const COMPACT_DATE_RANGE_SEPARATOR = /[-－–]/g
+
+const hasYearMonthDay = (dateString: string) => (dateString.match(/\d+/g) ?? []).length >= 3
+
+const splitCompactDateRange = (
+  rangeString: string,
+  parseDate: (dateString: string) => Date | null,
+) => {
+  const isFullDate = (dateString: string) => {
+    if (!hasYearMonthDay(dateString)) {
+      return false
+    }
+    const date = parseDate(dateString)
+    return date !== null && dayjs(date).isValid()
+  }
+  for (const matched of Array.from(rangeString.matchAll(COMPACT_DATE_RANGE_SEPARATOR))) {
+    const index = matched.index ?? 0
+    const startString = rangeString.slice(0, index)
+    const endString = rangeString.slice(index + 1)
+    if (isFullDate(startString) && isFullDate(endString)) {
+      return [startString, endString]
+    }
+  }
+  return [rangeString]
+}
+
+export function parseJpnDateRangeString(
+  rangeString: string,
+  parseDate: (dateString: string) => Date | null = parseJpnDateString,
+): DateRange {
+  const trimmed = rangeString.trim()
+  const separated = trimmed.split(DATE_RANGE_SEPARATOR, 2)
+  const [startString = '', endString = ''] =
+    separated.length > 1 ? separated : splitCompactDateRange(trimmed, parseDate)
+  return {
+    start: startString === '' ? null : parseDate(startString),
+    end: endString === '' ? null : parseDate(endString),
+  }
+}
+
+export function validateDateRange({ start, end }: DateRange, from: Date, to?: Date) {
+  const errors: string[] = []
+  const dates = [start, end].filter((date): date is Date => date !== null)
+  if (dates.some((date) => !dayjs(date).isValid())) {
+    errors.push('INVALID_DATE')
+    return errors
+  }
+  if (start && end && dayjs(start).isAfter(end, 'date')) {
+    errors.push('INVALID_RANGE')
+  }
+  if (
+    dates.some(
+      (date) => dayjs(date).isBefore(from, 'date') || (to && dayjs(date).isAfter(to, 'date')),
+    )
+  ) {
+    errors.push('OUT_OF_RANGE')
+  }
+  return errors
+}
+
+export type Time = {
+  hours: number
+  minutes: number
+}
+
+// 「9:30」「9時30分」「9時」のような時刻の文字列
+const TIME_PATTERN = /^(\d{1,2})\s*(?:[:時]\s*(\d{1,2})?\s*分?)?$/
+// 「0930」「930」のように区切りのない時刻の文字列
+const NO_SEPARATOR_TIME_PATTERN = /^(\d{1,2})(\d{2})$/
+
+/** 24 時間表記の時刻の文字列をパースする。時刻として不正な場合は null を返す */
+export function parseTimeString(timeString: string): Time | null {
+  const normalized = timeString.normalize('NFKC').trim()
+  const matched = normalized.match(TIME_PATTERN) || normalized.match(NO_SEPARATOR_TIME_PATTERN)
+  if (!matched) {
+    return null
+  }
+  const hours = Number(matched[1])
+  const minutes = Number(matched[2] ?? 0)
+  if (hours > 23 || minutes > 59) {
+    return null
+  }
+  return { hours, minutes }
+}
+
+export function formatTime({ hours, minutes }: Time) {
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+const toMinutes = ({ hours, minutes }: Time) => hours * 60 + minutes
+
+export const isAfterTime = (time: Time, other: Time) => toMinutes(time) > toMinutes(other)
+
+// 0 以下や整数でない step は 1 分ごととして扱う
+const toValidStep = (step: number) => (Number.isInteger(step) && step >= 1 ? step : 1)
+
+/** min から max までの、step 分ごとの時刻を返す */
+export function getTimeOptions(step: number, min?: Time | null, max?: Time | null): Time[] {
+  const start = min ? toMinutes(min) : 0
+  const end = max ? toMinutes(max) : 24 * 60 - 1
+  const options: Time[] = []
+  for (let current = start; current <= end; current += toValidStep(step)) {
+    options.push({ hours: Math.floor(current / 60), minutes: current % 60 })
+  }
+  return options
+}
+
+export function validateTime(
+  time: Time,
+  { step, min, max }: { step?: number; min?: Time | null; max?: Time | null },
+) {
+  const errors: string[] = []
+  const minutes = toMinutes(time)
+  if ((min && minutes < toMinutes(min)) || (max && minutes > toMinutes(max))) {
+    errors.push('OUT_OF_RANGE')
+  }
+  // step を指定した場合は、選択肢と同じく min を起点とした step 分ごとの時刻だけを許容する
+  if (step !== undefined && (minutes - (min ? toMinutes(min) : 0)) % toValidStep(step) !== 0) {
+    errors.push('INVALID_STEP')
+  }
+  return errors
+}
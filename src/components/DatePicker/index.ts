@@ -1 +1,5 @@
 export { DatePicker } from './DatePicker'
+export { DateRangePicker } from './DateRangePicker'
+export { TimePicker } from './TimePicker'
+export { DateTimePicker } from './DateTimePicker'
+export type { DateRange, Time } from './datePickerHelper'
@@ -3,6 +3,9 @@ import { useMemo } from 'react'
 import { useClassNameGenerator } from '../../hooks/useClassNameGenerator'
 
 import { DatePicker } from './DatePicker'
+import { DateRangePicker } from './DateRangePicker'
+import { DateTimePicker } from './DateTimePicker'
+import { TimePicker } from './TimePicker'
 
 export const useClassNames = () => {
   const generate = useClassNameGenerator(DatePicker.displayName || 'DatePicker')
@@ -16,3 +19,42 @@ export const useClassNames = () => {
     [generate],
   )
 }
+
+export const useDateRangePickerClassNames = () => {
+  const generate = useClassNameGenerator(DateRangePicker.displayName || 'DateRangePicker')
+
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      inputContainer: generate('inputContainer'),
+    }),
+    [generate],
+  )
+}
+
+export const useTimePickerClassNames = () => {
+  const generate = useClassNameGenerator(TimePicker.displayName || 'TimePicker')
+
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      inputContainer: generate('inputContainer'),
+      timeList: generate('timeList'),
+      selectTime: generate('selectTime'),
+    }),
+    [generate],
+  )
+}
+
+export const useDateTimePickerClassNames = () => {
+  const generate = useClassNameGenerator(DateTimePicker.displayName || 'DateTimePicker')
+
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      datePicker: generate('datePicker'),
+      timePicker: generate('timePicker'),
+    }),
+    [generate],
+  )
+}
@@ -29,12 +29,12 @@ export const BulkActionRow: VFC<Props & ElementProps> = ({
   )
 }
 
-const Cell = styled.td<{ themes: Theme }>(({ themes }) => {
-  const { fontSize, border, color, spacingByChar } = themes
-  return css`
-    border-top: ${border.shorthand};
-    background-color: ${color.ACTION_BACKGROUND};
-    padding: ${spacingByChar(1)};
-    font-size: ${fontSize.M};
-  `
-})
+/** 行全体に広がるセルのスタイル。GroupHeaderRow と共通で使う */
+export const actionRowCellStyle = ({ fontSize, border, color, spacingByChar }: Theme) => css`
+  border-top: ${border.shorthand};
+  background-color: ${color.ACTION_BACKGROUND};
+  padding: ${spacingByChar(1)};
+  font-size: ${fontSize.M};
+`
+
+const Cell = styled.td<{ themes: Theme }>(({ themes }) => actionRowCellStyle(themes))
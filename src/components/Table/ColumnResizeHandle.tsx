@@ -0,0 +1,171 @@
+import React, {
+  KeyboardEvent,
+  PointerEvent,
+  VFC,
+  useCallback,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+
+type Props = {
+  /** 幅を変更している間に発火するコールバック関数 */
+  onResize: (width: number) => void
+  /** 幅の変更を終えた時に発火するコールバック関数 */
+  onResizeEnd?: (width: number) => void
+  /** タッチ操作のスクロールなどで、ブラウザがドラッグを中断した時に発火するコールバック関数 */
+  onResizeCancel?: () => void
+  label: string
+  className: string
+}
+
+const MIN_COLUMN_WIDTH = 40
+const KEYBOARD_RESIZE_STEP = 10
+
+const getCellWidth = (handle: HTMLElement) =>
+  handle.closest('th')?.getBoundingClientRect().width ?? 0
+
+export const ColumnResizeHandle: VFC<Props> = ({
+  onResize,
+  onResizeEnd,
+  onResizeCancel,
+  label,
+  className,
+}) => {
+  const theme = useTheme()
+  const handleRef = useRef<HTMLDivElement>(null)
+  const dragStart = useRef<{ x: number; width: number } | null>(null)
+  const resizedWidth = useRef<number | null>(null)
+  // 支援技術に現在の幅を伝えるため、セルとテーブルの幅を保持する
+  const [size, setSize] = useState<{ width: number; tableWidth: number } | null>(null)
+
+  useLayoutEffect(() => {
+    const cell = handleRef.current?.closest('th')
+    const table = cell?.closest('table')
+    if (!cell || !table) {
+      return
+    }
+    const updateSize = () => {
+      const width = Math.round(cell.getBoundingClientRect().width)
+      const tableWidth = Math.round(table.getBoundingClientRect().width)
+      setSize((current) =>
+        current?.width === width && current.tableWidth === tableWidth
+          ? current
+          : { width, tableWidth },
+      )
+    }
+    updateSize()
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+    const observer = new ResizeObserver(updateSize)
+    observer.observe(cell)
+    observer.observe(table)
+    return () => observer.disconnect()
+  }, [])
+
+  const handlePointerDown = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    // 列の並び替えなど、セルに設定されたドラッグ操作を開始させない
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStart.current = { x: e.clientX, width: getCellWidth(e.currentTarget) }
+    resizedWidth.current = null
+  }, [])
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (dragStart.current === null) {
+        return
+      }
+      const { x, width } = dragStart.current
+      resizedWidth.current = Math.max(width + e.clientX - x, MIN_COLUMN_WIDTH)
+      onResize(resizedWidth.current)
+    },
+    [onResize],
+  )
+  const handlePointerUp = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      // キャプチャの解放で発火する lostpointercapture を中断として扱わないよう、先に終了させる
+      dragStart.current = null
+      e.currentTarget.releasePointerCapture(e.pointerId)
+      if (resizedWidth.current !== null) {
+        onResizeEnd && onResizeEnd(resizedWidth.current)
+        resizedWidth.current = null
+      }
+    },
+    [onResizeEnd],
+  )
+  // ドラッグが中断された場合は、変更した幅を確定せずに元に戻す
+  const handlePointerCancel = useCallback(() => {
+    if (dragStart.current === null) {
+      return
+    }
+    dragStart.current = null
+    if (resizedWidth.current !== null) {
+      resizedWidth.current = null
+      onResizeCancel && onResizeCancel()
+    }
+  }, [onResizeCancel])
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      // Alt + 左右キーは列の並び替えに使うため、幅の変更を行わない
+      if (e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) {
+        return
+      }
+      e.preventDefault()
+      e.stopPropagation()
+      const delta = e.key === 'ArrowLeft' ? -KEYBOARD_RESIZE_STEP : KEYBOARD_RESIZE_STEP
+      const width = Math.max(getCellWidth(e.currentTarget) + delta, MIN_COLUMN_WIDTH)
+      onResize(width)
+      onResizeEnd && onResizeEnd(width)
+    },
+    [onResize, onResizeEnd],
+  )
+
+  return (
+    <Handle
+      // 矢印キーで幅を変更できるよう、フォーカス可能な separator として扱う
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={label}
+      aria-valuenow={size?.width}
+      aria-valuemin={MIN_COLUMN_WIDTH}
+      aria-valuemax={size ? Math.max(size.width, size.tableWidth) : undefined}
+      tabIndex={0}
+      ref={handleRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onLostPointerCapture={handlePointerCancel}
+      onKeyDown={handleKeyDown}
+      themes={theme}
+      className={className}
+    />
+  )
+}
+
+const Handle = styled.div<{ themes: Theme }>`
+  ${({ themes: { color, shadow } }) => css`
+    position: absolute;
+    top: 0;
+    right: 0;
+    bottom: 0;
+    width: 8px;
+    cursor: col-resize;
+    touch-action: none;
+
+    &:hover,
+    &:focus-visible {
+      background-color: ${color.BORDER};
+    }
+
+    &:focus-visible {
+      ${shadow.focusIndicatorStyles}
+    }
+  `}
+`
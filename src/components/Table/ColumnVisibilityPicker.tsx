@@ -0,0 +1,139 @@
+import React, { ReactNode, useMemo } from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { Button } from '../Button'
+import { CheckBox } from '../CheckBox'
+import { Dropdown, DropdownContent, DropdownScrollArea, DropdownTrigger } from '../Dropdown'
+import { FaColumnsIcon, FaEyeIcon, FaUndoAltIcon } from '../Icon'
+
+import {
+  ColumnVisibility,
+  DataTableColumn,
+  changeColumnVisibility,
+  getDefaultColumnVisibility,
+  isColumnVisible,
+  showAllColumns,
+} from './dataTableHelper'
+import { useColumnVisibilityPickerClassNames } from './useClassNames'
+
+type DecoratorFunctionType = (text: string) => ReactNode
+
+type Props<T> = {
+  /** 列の定義。`required` の列は非表示にできない */
+  columns: Array<DataTableColumn<T>>
+  /** 列の key ごとの表示状態。DataTable の `columnVisibility` と合わせて使用する */
+  value: ColumnVisibility | null
+  /** 表示状態が変わった時に発火するコールバック関数 */
+  onChange: (visibility: ColumnVisibility) => void
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    triggerButton?: DecoratorFunctionType
+    showAllButton?: DecoratorFunctionType
+    resetButton?: DecoratorFunctionType
+  }
+}
+
+const TRIGGER_BUTTON_TEXT = '表示する列'
+const SHOW_ALL_BUTTON_TEXT = 'すべて表示'
+const RESET_BUTTON_TEXT = '初期状態に戻す'
+
+const executeDecorator = (defaultText: string, decorator: DecoratorFunctionType | undefined) =>
+  decorator ? decorator(defaultText) : defaultText
+
+export function ColumnVisibilityPicker<T>({
+  columns,
+  value,
+  onChange,
+  className = '',
+  decorator,
+}: Props<T>) {
+  const themes = useTheme()
+  const classNames = useColumnVisibilityPickerClassNames()
+
+  const triggerButton = useMemo(
+    () => executeDecorator(TRIGGER_BUTTON_TEXT, decorator?.triggerButton),
+    [decorator?.triggerButton],
+  )
+  const showAllButton = useMemo(
+    () => executeDecorator(SHOW_ALL_BUTTON_TEXT, decorator?.showAllButton),
+    [decorator?.showAllButton],
+  )
+  const resetButton = useMemo(
+    () => executeDecorator(RESET_BUTTON_TEXT, decorator?.resetButton),
+    [decorator?.resetButton],
+  )
+
+  return (
+    <Dropdown>
+      <DropdownTrigger className={`${className} ${classNames.wrapper}`}>
+        <Button prefix={<FaColumnsIcon />} className={classNames.trigger}>
+          {triggerButton}
+        </Button>
+      </DropdownTrigger>
+      <DropdownContent controllable>
+        <DropdownScrollArea>
+          <ColumnList themes={themes} className={classNames.list}>
+            {columns.map((column) => (
+              <li key={column.key}>
+                <CheckBox
+                  name="columnVisibility"
+                  value={column.key}
+                  checked={isColumnVisible(column, value)}
+                  disabled={column.required}
+                  onChange={(e) =>
+                    onChange(changeColumnVisibility(columns, value, column.key, e.target.checked))
+                  }
+                >
+                  {column.header}
+                </CheckBox>
+              </li>
+            ))}
+          </ColumnList>
+        </DropdownScrollArea>
+        <BottomLayout themes={themes}>
+          <Button
+            variant="text"
+            size="s"
+            prefix={<FaEyeIcon />}
+            onClick={() => onChange(showAllColumns(columns))}
+            className={classNames.showAllButton}
+          >
+            {showAllButton}
+          </Button>
+          <Button
+            variant="text"
+            size="s"
+            prefix={<FaUndoAltIcon />}
+            onClick={() => onChange(getDefaultColumnVisibility(columns))}
+            className={classNames.resetButton}
+          >
+            {resetButton}
+          </Button>
+        </BottomLayout>
+      </DropdownContent>
+    </Dropdown>
+  )
+}
+
+const ColumnList = styled.ul<{ themes: Theme }>`
+  ${({ themes: { spacingByChar } }) => css`
+    display: flex;
+    flex-direction: column;
+    gap: ${spacingByChar(0.5)};
+    margin: 0;
+    padding: ${spacingByChar(1)} ${spacingByChar(1.5)};
+    list-style: none;
+  `}
+`
+const BottomLayout = styled.div<{ themes: Theme }>`
+  ${({ themes: { border, spacingByChar } }) => css`
+    display: flex;
+    justify-content: space-between;
+    gap: ${spacingByChar(1)};
+    border-top: ${border.shorthand};
+    padding: ${spacingByChar(0.5)} ${spacingByChar(1)};
+  `}
+`
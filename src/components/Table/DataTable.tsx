@@ -0,0 +1,402 @@
+import React, {
+  DragEvent,
+  KeyboardEvent,
+  ReactNode,
+  TableHTMLAttributes,
+  useCallback,
+  useMemo,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
+import { CheckBox } from '../CheckBox'
+
+import { BulkActionRow } from './BulkActionRow'
+import { EditableTd, EditableTdProps } from './EditableTd'
+import { Table } from './Table'
+import { Td } from './Td'
+import { Th } from './Th'
+import {
+  ColumnLayout,
+  ColumnVisibility,
+  DataTableColumn,
+  SortState,
+  applyColumnLayout,
+  applyColumnVisibility,
+  getCellValue,
+  getNextSort,
+  getSelectionState,
+  getSortDirection,
+  moveColumn,
+  normalizeColumnLayout,
+  resizeColumn,
+  sortRows,
+  toggleAllSelection,
+  toggleSelection,
+} from './dataTableHelper'
+import { useDataTableClassNames } from './useClassNames'
+
+type Props<T> = {
+  /** 列の定義 */
+  columns: Array<DataTableColumn<T>>
+  /** 表示する行のデータ */
+  rows: T[]
+  /** 行を一意に識別するキーを返す関数 */
+  rowKey: (row: T) => string
+  /** `true` のとき、スクロール時にヘッダーを固定表示する */
+  fixedHead?: boolean
+  /** `true` のとき、キーボードでセル間を移動できるようにする。詳しくは `Table` の `gridNavigation` を参照 */
+  gridNavigation?: boolean
+  /** 並び替えの状態。指定した場合は並び替えの状態を外部で管理する */
+  sort?: SortState | null
+  /** デフォルトの並び替えの状態 */
+  defaultSort?: SortState | null
+  /** `true` のとき、`rows` の並び替えを行わない。サーバーサイドで並び替える場合などに使用する */
+  manualSort?: boolean
+  /** 並び替えの状態が変わった時に発火するコールバック関数 */
+  onChangeSort?: (sort: SortState) => void
+  /** `true` のとき、行を選択するチェックボックスを表示する */
+  selectable?: boolean
+  /** 選択されている行のキーのリスト。指定した場合は選択状態を外部で管理する */
+  selectedKeys?: string[]
+  /** デフォルトで選択される行のキーのリスト */
+  defaultSelectedKeys?: string[]
+  /** 選択されている行のリストが変わった時に発火するコールバック関数 */
+  onChangeSelected?: (selectedKeys: string[]) => void
+  /** `true` のとき、ヘッダーセルの右端をドラッグして列の幅を変更できるようになる */
+  resizableColumns?: boolean
+  /** `true` のとき、ヘッダーセルをドラッグするか、ヘッダーセルで Alt + 左右キーを押して列を並び替えられるようになる */
+  reorderableColumns?: boolean
+  /** 列の表示順と幅。指定した場合は列のレイアウトを外部で管理する */
+  columnLayout?: ColumnLayout | null
+  /** デフォルトの列の表示順と幅 */
+  defaultColumnLayout?: ColumnLayout | null
+  /**
+   * 列の表示順や幅が変わった時に発火するコールバック関数
+   * 引数のレイアウトはシリアライズ可能なため、保存しておき `columnLayout` に渡すことで復元できる
+   */
+  onColumnLayoutChange?: (layout: ColumnLayout) => void
+  /** 列の key ごとの表示状態。`ColumnVisibilityPicker` の `value` と合わせて使用する */
+  columnVisibility?: ColumnVisibility | null
+  /** 列の `editor` で編集したセルの値を確定した時に発火するコールバック関数 */
+  onCellCommit?: (rowKey: string, columnKey: string, value: unknown) => void
+  /** 行が選択されている時に表示する一括操作エリアの内容 */
+  bulkActionArea?: ReactNode | ((selectedKeys: string[]) => ReactNode)
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    selectAllLabel?: (text: string) => ReactNode
+    selectRowLabel?: (text: string) => ReactNode
+  }
+}
+type ElementProps<T> = Omit<TableHTMLAttributes<HTMLTableElement>, keyof Props<T>>
+
+const SELECT_ALL_LABEL = 'すべての行を選択'
+const SELECT_ROW_LABEL = '行を選択'
+
+export function DataTable<T>({
+  columns,
+  rows,
+  rowKey,
+  fixedHead = false,
+  gridNavigation = false,
+  sort: controlledSort,
+  defaultSort = null,
+  manualSort = false,
+  onChangeSort,
+  selectable = false,
+  selectedKeys: controlledSelectedKeys,
+  defaultSelectedKeys = [],
+  onChangeSelected,
+  resizableColumns = false,
+  reorderableColumns = false,
+  columnLayout: controlledColumnLayout,
+  defaultColumnLayout = null,
+  onColumnLayoutChange,
+  columnVisibility = null,
+  onCellCommit,
+  bulkActionArea,
+  className = '',
+  decorator,
+  ...props
+}: Props<T> & ElementProps<T>) {
+  const classNames = useDataTableClassNames()
+
+  const [uncontrolledSort, setUncontrolledSort] = useState<SortState | null>(defaultSort)
+  const sort = controlledSort === undefined ? uncontrolledSort : controlledSort
+  const [uncontrolledSelectedKeys, setUncontrolledSelectedKeys] =
+    useState<string[]>(defaultSelectedKeys)
+  const selectedKeys =
+    controlledSelectedKeys === undefined ? uncontrolledSelectedKeys : controlledSelectedKeys
+
+  const [uncontrolledColumnLayout, setUncontrolledColumnLayout] = useState<ColumnLayout | null>(
+    defaultColumnLayout,
+  )
+  const currentColumnLayout =
+    controlledColumnLayout === undefined ? uncontrolledColumnLayout : controlledColumnLayout
+  const columnLayout = useMemo(
+    () => normalizeColumnLayout(columns, currentColumnLayout),
+    [columns, currentColumnLayout],
+  )
+  const visibleColumns = useMemo(
+    () => applyColumnVisibility(applyColumnLayout(columns, columnLayout), columnVisibility),
+    [columns, columnLayout, columnVisibility],
+  )
+  const [draggingColumnKey, setDraggingColumnKey] = useState<string | null>(null)
+  // ドラッグで幅を変更している間の列の幅。変更を終えた時にレイアウトに反映する
+  const [resizingColumn, setResizingColumn] = useState<{ key: string; width: number } | null>(null)
+
+  // 左端に固定表示する列がある場合は、選択用の列も固定表示する
+  const selectionFixed = columns.some(({ fixed }) => fixed === 'left') ? 'left' : undefined
+
+  const sortedRows = useMemo(
+    () => (manualSort ? rows : sortRows(rows, columns, sort)),
+    [columns, manualSort, rows, sort],
+  )
+  const rowKeys = useMemo(() => sortedRows.map(rowKey), [rowKey, sortedRows])
+  const { allSelected, someSelected } = useMemo(
+    () => getSelectionState(rowKeys, selectedKeys),
+    [rowKeys, selectedKeys],
+  )
+
+  const handleSort = useCallback(
+    (key: string) => {
+      const nextSort = getNextSort(sort, key)
+      setUncontrolledSort(nextSort)
+      onChangeSort && onChangeSort(nextSort)
+    },
+    [onChangeSort, sort],
+  )
+  const changeSelectedKeys = useCallback(
+    (nextSelectedKeys: string[]) => {
+      setUncontrolledSelectedKeys(nextSelectedKeys)
+      onChangeSelected && onChangeSelected(nextSelectedKeys)
+    },
+    [onChangeSelected],
+  )
+  const handleToggleAll = useCallback(() => {
+    changeSelectedKeys(toggleAllSelection(rowKeys, selectedKeys))
+  }, [changeSelectedKeys, rowKeys, selectedKeys])
+  const handleToggleRow = useCallback(
+    (key: string) => {
+      changeSelectedKeys(toggleSelection(key, selectedKeys))
+    },
+    [changeSelectedKeys, selectedKeys],
+  )
+
+  const changeColumnLayout = useCallback(
+    (nextLayout: ColumnLayout) => {
+      setUncontrolledColumnLayout(nextLayout)
+      onColumnLayoutChange && onColumnLayoutChange(nextLayout)
+    },
+    [onColumnLayoutChange],
+  )
+  const handleResizeColumnEnd = (key: string, width: number) => {
+    setResizingColumn(null)
+    changeColumnLayout(resizeColumn(columnLayout, key, width))
+  }
+  const handleDropColumn = (e: DragEvent<HTMLTableCellElement>, key: string) => {
+    e.preventDefault()
+    if (draggingColumnKey !== null) {
+      changeColumnLayout(moveColumn(columnLayout, draggingColumnKey, key))
+    }
+    setDraggingColumnKey(null)
+  }
+  const handleColumnKeyDown = (e: KeyboardEvent<HTMLTableCellElement>, key: string) => {
+    // Alt + 左右キーで列を並び替える
+    if (!e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) {
+      return
+    }
+    e.preventDefault()
+    // 非表示の列を飛ばして、表示されている隣の列と入れ替える
+    const order = visibleColumns.map((column) => column.key)
+    const targetKey = order[order.indexOf(key) + (e.key === 'ArrowLeft' ? -1 : 1)]
+    if (targetKey !== undefined) {
+      changeColumnLayout(moveColumn(columnLayout, key, targetKey))
+    }
+  }
+
+  const selectAllLabel = decorator?.selectAllLabel
+    ? decorator.selectAllLabel(SELECT_ALL_LABEL)
+    : SELECT_ALL_LABEL
+  const selectRowLabel = decorator?.selectRowLabel
+    ? decorator.selectRowLabel(SELECT_ROW_LABEL)
+    : SELECT_ROW_LABEL
+
+  return (
+    <Table
+      {...props}
+      fixedHead={fixedHead}
+      gridNavigation={gridNavigation}
+      className={`${className} ${classNames.wrapper}`}
+    >
+      <thead>
+        <tr>
+          {selectable && (
+            <SelectionTh fixed={selectionFixed}>
+              <VisuallyHiddenText>{selectRowLabel}</VisuallyHiddenText>
+              {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+              <label>
+                <VisuallyHiddenText>{selectAllLabel}</VisuallyHiddenText>
+                <SelectionCheckBox
+                  name="selectAllRows"
+                  checked={allSelected || someSelected}
+                  mixed={someSelected}
+                  onChange={handleToggleAll}
+                  className={classNames.selectAllCheckBox}
+                />
+              </label>
+            </SelectionTh>
+          )}
+          {visibleColumns.map((column) => {
+            const sortDirection = column.sortable ? getSortDirection(sort, column.key) : undefined
+            return (
+              <StyledTh
+                {...(reorderableColumns && {
+                  draggable: true,
+                  onDragStart: (e: DragEvent<HTMLTableCellElement>) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    // Firefox ではデータを設定しないとドラッグが開始されない
+                    e.dataTransfer.setData('text/plain', column.key)
+                    setDraggingColumnKey(column.key)
+                  },
+                  onDragOver: (e: DragEvent<HTMLTableCellElement>) => {
+                    if (draggingColumnKey !== null) {
+                      e.preventDefault()
+                    }
+                  },
+                  onDrop: (e: DragEvent<HTMLTableCellElement>) => handleDropColumn(e, column.key),
+                  onDragEnd: () => setDraggingColumnKey(null),
+                  onKeyDown: (e: KeyboardEvent<HTMLTableCellElement>) =>
+                    handleColumnKeyDown(e, column.key),
+                  // セル内にフォーカスできる要素がない場合も、キーボードで並び替えられるようにする
+                  // gridNavigation の場合はセル自体にフォーカスできる
+                  tabIndex:
+                    !gridNavigation && sortDirection === undefined && !resizableColumns
+                      ? 0
+                      : undefined,
+                })}
+                key={column.key}
+                sort={sortDirection}
+                onSort={() => handleSort(column.key)}
+                highlighted={sortDirection !== undefined && sortDirection !== 'none'}
+                fixed={column.fixed}
+                onResize={
+                  resizableColumns
+                    ? (width) => setResizingColumn({ key: column.key, width })
+                    : undefined
+                }
+                onResizeEnd={(width) => handleResizeColumnEnd(column.key, width)}
+                onResizeCancel={() => setResizingColumn(null)}
+                $width={resizingColumn?.key === column.key ? resizingColumn.width : column.width}
+                $align={column.align}
+              >
+                {column.header}
+              </StyledTh>
+            )
+          })}
+        </tr>
+        {bulkActionArea && selectedKeys.length > 0 && (
+          <BulkActionRow>
+            {typeof bulkActionArea === 'function' ? bulkActionArea(selectedKeys) : bulkActionArea}
+          </BulkActionRow>
+        )}
+      </thead>
+      <tbody>
+        {sortedRows.map((row, rowIndex) => {
+          const key = rowKeys[rowIndex]
+          return (
+            <tr key={key} className={classNames.row}>
+              {selectable && (
+                <SelectionTd fixed={selectionFixed}>
+                  {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+                  <label>
+                    <VisuallyHiddenText>{selectRowLabel}</VisuallyHiddenText>
+                    <SelectionCheckBox
+                      name="selectedRows"
+                      value={key}
+                      checked={selectedKeys.includes(key)}
+                      onChange={() => handleToggleRow(key)}
+                      className={classNames.selectRowCheckBox}
+                    />
+                  </label>
+                </SelectionTd>
+              )}
+              {visibleColumns.map((column) => {
+                const content = column.cell
+                  ? column.cell(row, rowIndex)
+                  : (getCellValue(row, column.key) as ReactNode)
+
+                if (column.editor && onCellCommit) {
+                  const { editor, validate } = column
+                  return (
+                    <AlignedEditableTd
+                      key={column.key}
+                      fixed={column.fixed}
+                      value={row[column.key]}
+                      renderValue={() => content}
+                      renderEditor={(editorProps) => editor({ ...editorProps, row })}
+                      validate={validate && ((value) => validate(value, row))}
+                      onCommit={(value) => onCellCommit(key, column.key, value)}
+                      $align={column.align}
+                    />
+                  )
+                }
+                return (
+                  <StyledTd key={column.key} fixed={column.fixed} $align={column.align}>
+                    {content}
+                  </StyledTd>
+                )
+              })}
+            </tr>
+          )
+        })}
+      </tbody>
+    </Table>
+  )
+}
+
+// EditableTd は値の型を引数に取るため、styled で包むと型引数が失われる
+// 型引数を保ったまま揃え位置を指定するため、style で適用する
+function AlignedEditableTd<V>({
+  $align,
+  style,
+  ...props
+}: EditableTdProps<V> & Pick<CellStyleProps, '$align'>) {
+  return <EditableTd {...props} style={{ ...style, textAlign: $align }} />
+}
+
+type CellStyleProps = {
+  $width?: string | number
+  $align?: 'left' | 'center' | 'right'
+}
+const cellStyle = ({ $width, $align }: CellStyleProps) => css`
+  ${$width !== undefined &&
+  css`
+    width: ${typeof $width === 'number' ? `${$width}px` : $width};
+  `}
+  ${$align &&
+  css`
+    text-align: ${$align};
+  `}
+`
+const StyledTh = styled(Th)<CellStyleProps>`
+  ${cellStyle}
+`
+const StyledTd = styled(Td)<CellStyleProps>`
+  ${cellStyle}
+`
+const SelectionTh = styled(Th)`
+  width: 0;
+`
+const SelectionTd = styled(Td)`
+  width: 0;
+`
+const SelectionCheckBox = styled(CheckBox)`
+  vertical-align: middle;
+`
+const VisuallyHiddenText = styled.span`
+  ${VISUALLY_HIDDEN_STYLE}
+`
@@ -0,0 +1,139 @@
+import React from 'react'
+import { createRoot } from 'react-dom/client'
+import { act } from 'react-dom/test-utils'
+
+import { EditableTd } from '.'
+
+const setInputValue = (input: HTMLInputElement, value: string) => {
+  // React の onChange を発火させるため、ネイティブのセッターで値を変更する
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(input, value)
+  input.dispatchEvent(new Event('input', { bubbles: true }))
+}
+const pressKey = (element: Element, key: string, init: KeyboardEventInit = {}) =>
+  element.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }))
+
+describe('EditableTd', () => {
+  let container: HTMLDivElement
+  let onCommit: jest.Mock
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    onCommit = jest.fn()
+  })
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  const render = (validate?: (value: string) => string | null) => {
+    act(() => {
+      createRoot(container).render(
+        <>
+          <table>
+            <tbody>
+              <tr>
+                <EditableTd
+                  value="山田"
+                  onCommit={onCommit}
+                  validate={validate}
+                  renderEditor={({ value, onChange }) => (
+                    <input
+                      name="name"
+                      aria-label="氏名"
+                      value={value}
+                      onChange={(e) => onChange(e.target.value)}
+                    />
+                  )}
+                />
+                <td>
+                  <button type="button" className="next">
+                    次
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <button type="button" className="outside">
+            外
+          </button>
+        </>,
+      )
+    })
+  }
+  const getViewButton = () => container.querySelector<HTMLButtonElement>('td button')!
+  const getInput = () => container.querySelector('input')
+  const startEditing = (value: string) => {
+    act(() => getViewButton().click())
+    act(() => setInputValue(getInput()!, value))
+  }
+
+  it('should focus the editor when editing starts', () => {
+    render()
+    act(() => getViewButton().click())
+    expect(document.activeElement).toBe(getInput())
+  })
+
+  it('should commit the value and focus the cell on Enter', () => {
+    render()
+    startEditing('鈴木')
+    act(() => {
+      pressKey(getInput()!, 'Enter')
+    })
+    expect(onCommit).toHaveBeenCalledWith('鈴木')
+    expect(getInput()).toBeNull()
+    expect(document.activeElement).toBe(getViewButton())
+  })
+
+  it('should discard the value on Escape', () => {
+    render()
+    startEditing('鈴木')
+    act(() => {
+      pressKey(getInput()!, 'Escape')
+    })
+    expect(onCommit).not.toHaveBeenCalled()
+    expect(getInput()).toBeNull()
+    expect(document.activeElement).toBe(getViewButton())
+  })
+
+  it('should commit the value and move focus to the next element on Tab', () => {
+    render()
+    startEditing('鈴木')
+    act(() => {
+      pressKey(getInput()!, 'Tab')
+    })
+    expect(onCommit).toHaveBeenCalledWith('鈴木')
+    expect(document.activeElement).toBe(container.querySelector('.next'))
+  })
+
+  it('should not commit an invalid value and show the error message', () => {
+    render((value) => (value === '' ? '氏名を入力してください' : null))
+    startEditing('')
+    act(() => {
+      pressKey(getInput()!, 'Enter')
+    })
+    expect(onCommit).not.toHaveBeenCalled()
+    expect(getInput()).not.toBeNull()
+    expect(container.querySelector('[role="alert"]')?.textContent).toContain(
+      '氏名を入力してください',
+    )
+  })
+
+  it('should commit the value when focus leaves the cell', () => {
+    render()
+    startEditing('鈴木')
+    act(() => container.querySelector<HTMLButtonElement>('.outside')!.focus())
+    expect(onCommit).toHaveBeenCalledWith('鈴木')
+    expect(getInput()).toBeNull()
+    expect(document.activeElement).toBe(container.querySelector('.outside'))
+  })
+
+  it('should discard an invalid value when focus leaves the cell', () => {
+    render((value) => (value === '' ? '氏名を入力してください' : null))
+    startEditing('')
+    act(() => {
+      document.body.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }))
+    })
+    expect(onCommit).not.toHaveBeenCalled()
+    expect(getInput()).toBeNull()
+    expect(getViewButton().textContent).toContain('山田')
+  })
+})
@@ -0,0 +1,274 @@
+import React, {
+  KeyboardEvent,
+  ReactNode,
+  TdHTMLAttributes,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
+import { useId } from '../../hooks/useId'
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { tabbable } from '../../libs/tabbable'
+import { UnstyledButton } from '../Button'
+import { FaExclamationCircleIcon } from '../Icon'
+
+import { Td, Props as TdProps } from './Td'
+import { useEditableTdClassNames } from './useClassNames'
+
+export type EditorProps<V> = {
+  /** 編集中の値 */
+  value: V
+  /** 編集中の値を変更する関数 */
+  onChange: (value: V) => void
+  /** `true` のとき、入力値にエラーがある。入力要素の `error` に指定する */
+  error: boolean
+  /** エラーメッセージの要素の id。入力要素の `aria-describedby` に指定する */
+  errorMessageId: string | undefined
+}
+
+type Props<V> = {
+  /** セルの値 */
+  value: V
+  /** 編集中に表示する入力要素を返す関数 */
+  renderEditor: (props: EditorProps<V>) => ReactNode
+  /** 閲覧中に表示する内容を返す関数。省略した場合は値を文字列にして表示する */
+  renderValue?: (value: V) => ReactNode
+  /** 入力値を検証する関数。エラーメッセージを返した場合は確定できない */
+  validate?: (value: V) => string | null | undefined
+  /** 編集を確定した時に発火するコールバック関数 */
+  onCommit: (value: V) => void
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    editButtonLabel?: (text: string) => string
+  }
+}
+type ElementProps<V> = Omit<TdHTMLAttributes<HTMLTableCellElement>, keyof Props<V> | 'children'> &
+  Omit<TdProps, 'children'>
+export type EditableTdProps<V> = Props<V> & ElementProps<V>
+
+const EDIT_BUTTON_LABEL = '編集'
+
+// 入力要素が aria-controls で参照する要素も編集中の領域とみなす
+// ポータルで表示される DatePicker のカレンダーなどを操作しても編集を終了しないため
+const isInsideEditor = (editor: HTMLElement, target: Node) =>
+  editor.contains(target) ||
+  Array.from(editor.querySelectorAll('[aria-controls]')).some((element) =>
+    (element.getAttribute('aria-controls') ?? '')
+      .split(/\s+/)
+      .some((id) => !!id && !!document.getElementById(id)?.contains(target)),
+  )
+
+// renderValue を省略した場合の閲覧中の表示
+const formatValue = (value: unknown) => (value === null || value === undefined ? '' : String(value))
+
+const getAdjacentTabbable = (editor: HTMLElement, direction: 1 | -1) => {
+  const table = editor.closest('table')
+  if (!table) {
+    return null
+  }
+  const candidates = tabbable(table).filter((element) => !editor.contains(element))
+  const isAfterEditor = (element: HTMLElement) =>
+    !!(editor.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+  return direction === 1
+    ? candidates.find(isAfterEditor) ?? null
+    : candidates.filter((element) => !isAfterEditor(element)).pop() ?? null
+}
+
+export function EditableTd<V>({
+  value,
+  renderEditor,
+  renderValue,
+  validate,
+  onCommit,
+  decorator,
+  className = '',
+  ...props
+}: EditableTdProps<V>) {
+  const theme = useTheme()
+  const classNames = useEditableTdClassNames()
+  const errorMessageId = useId()
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const editorRef = useRef<HTMLDivElement>(null)
+  const viewButtonRef = useRef<HTMLButtonElement>(null)
+  // 編集を終了した後にフォーカスを移す先。'self' の場合は閲覧中のボタンにフォーカスを戻す
+  const focusTargetAfterEditing = useRef<HTMLElement | 'self' | null>(null)
+
+  useEffect(() => {
+    if (editing) {
+      editorRef.current && tabbable(editorRef.current)[0]?.focus()
+      return
+    }
+    const target = focusTargetAfterEditing.current
+    focusTargetAfterEditing.current = null
+    if (target === 'self') {
+      viewButtonRef.current?.focus()
+    } else if (target) {
+      target.focus()
+    }
+  }, [editing])
+
+  const startEditing = useCallback(() => {
+    setDraft(value)
+    setErrorMessage(null)
+    setEditing(true)
+  }, [value])
+  const cancel = useCallback(() => {
+    focusTargetAfterEditing.current = 'self'
+    setErrorMessage(null)
+    setEditing(false)
+  }, [])
+  const commit = useCallback(
+    (focusTarget: HTMLElement | 'self' | null) => {
+      const message = validate ? validate(draft) : null
+      if (message) {
+        setErrorMessage(message)
+        return
+      }
+      focusTargetAfterEditing.current = focusTarget
+      setErrorMessage(null)
+      setEditing(false)
+      if (draft !== value) {
+        onCommit(draft)
+      }
+    },
+    [draft, onCommit, validate, value],
+  )
+
+  const handleViewKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLButtonElement>) => {
+      if (e.key === 'F2') {
+        e.preventDefault()
+        startEditing()
+      }
+    },
+    [startEditing],
+  )
+  const handleEditorKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === 'Escape' || e.key === 'Esc') {
+        e.preventDefault()
+        e.stopPropagation()
+        cancel()
+      } else if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement)) {
+        e.preventDefault()
+        e.stopPropagation()
+        commit('self')
+      } else if (e.key === 'Tab') {
+        // 編集を終了すると入力要素が取り除かれるため、移動先を先に求めてから確定する
+        e.preventDefault()
+        commit(getAdjacentTabbable(e.currentTarget, e.shiftKey ? -1 : 1) ?? 'self')
+      }
+    },
+    [cancel, commit],
+  )
+  // 編集中の領域の外へフォーカスやクリックが移った場合は編集を終了する
+  // 入力値にエラーがある場合は確定できないため、入力を取り消す
+  const leave = useCallback(() => {
+    if (validate && validate(draft)) {
+      setErrorMessage(null)
+      setEditing(false)
+      return
+    }
+    commit(null)
+  }, [commit, draft, validate])
+
+  useEffect(() => {
+    if (!editing) {
+      return
+    }
+    const handleOutside = (e: Event) => {
+      const editor = editorRef.current
+      if (editor && e.target instanceof Node && !isInsideEditor(editor, e.target)) {
+        leave()
+      }
+    }
+    document.addEventListener('focusin', handleOutside)
+    document.addEventListener('mousedown', handleOutside)
+    return () => {
+      document.removeEventListener('focusin', handleOutside)
+      document.removeEventListener('mousedown', handleOutside)
+    }
+  }, [editing, leave])
+
+  return (
+    <Td
+      {...props}
+      className={`${className} ${classNames.wrapper} ${editing ? 'editing' : ''}`}
+      aria-invalid={errorMessage ? true : undefined}
+    >
+      {editing ? (
+        // 入力要素から伝播したキー操作で確定・取り消しを行う
+        // eslint-disable-next-line jsx-a11y/no-static-element-interactions
+        <div ref={editorRef} onKeyDown={handleEditorKeyDown}>
+          {renderEditor({
+            value: draft,
+            onChange: setDraft,
+            error: !!errorMessage,
+            errorMessageId: errorMessage ? errorMessageId : undefined,
+          })}
+          {errorMessage && (
+            <ErrorMessage
+              id={errorMessageId}
+              role="alert"
+              themes={theme}
+              className={classNames.errorMessage}
+            >
+              <FaExclamationCircleIcon color="DANGER" text={errorMessage} />
+            </ErrorMessage>
+          )}
+        </div>
+      ) : (
+        <ViewButton
+          type="button"
+          ref={viewButtonRef}
+          onClick={startEditing}
+          onKeyDown={handleViewKeyDown}
+          themes={theme}
+          className={classNames.viewButton}
+        >
+          {renderValue ? renderValue(value) : formatValue(value)}
+          <VisuallyHiddenText>
+            {decorator?.editButtonLabel
+              ? decorator.editButtonLabel(EDIT_BUTTON_LABEL)
+              : EDIT_BUTTON_LABEL}
+          </VisuallyHiddenText>
+        </ViewButton>
+      )}
+    </Td>
+  )
+}
+
+const ViewButton = styled(UnstyledButton)<{ themes: Theme }>`
+  ${({ themes: { color, spacingByChar } }) => css`
+    display: block;
+    box-sizing: border-box;
+
+    /* ボタンのクリック可能な領域をセル全体に広げる */
+    width: calc(100% + ${spacingByChar(1)} * 2);
+    min-height: calc(100% + ${spacingByChar(0.5)} * 2);
+    margin: calc(${spacingByChar(0.5)} * -1) calc(${spacingByChar(1)} * -1);
+    padding: ${spacingByChar(0.5)} ${spacingByChar(1)};
+    line-height: inherit;
+    text-align: inherit;
+    cursor: pointer;
+
+    &:hover {
+      background-color: ${color.hoverColor(color.WHITE)};
+    }
+  `}
+`
+const ErrorMessage = styled.p<{ themes: Theme }>`
+  ${({ themes: { fontSize, spacingByChar } }) => css`
+    margin: ${spacingByChar(0.25)} 0 0;
+    font-size: ${fontSize.S};
+  `}
+`
+const VisuallyHiddenText = styled.span`
+  ${VISUALLY_HIDDEN_STYLE}
+`
@@ -0,0 +1,122 @@
+import React, { HTMLAttributes, ReactNode, VFC, useContext, useEffect } from 'react'
+import styled, { css } from 'styled-components'
+
+import { useId } from '../../hooks/useId'
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { UnstyledButton } from '../Button'
+import { FaCaretDownIcon, FaCaretRightIcon } from '../Icon'
+
+import { TableTreeContext } from './Table'
+import { Td } from './Td'
+import { useExpandableRowClassNames } from './useClassNames'
+
+type DecoratorFunctionType = (text: string) => string
+
+export type Props = {
+  /** `true` のとき、行が展開された状態になる */
+  expanded?: boolean
+  /** 展開・折りたたみのボタンをクリックした時に発火するコールバック関数 */
+  onToggle?: () => void
+  /** `false` のとき、展開・折りたたみのボタンを表示しない。子を持たない行で使用する */
+  expandable?: boolean
+  /** 行の階層の深さ。1 から始まり、階層に応じてインデントされる。role="treegrid" のテーブルでは `aria-level` として支援技術にも伝えられる */
+  level?: number
+  /** 行が展開された時に、行の直後に表示する詳細の内容 */
+  details?: ReactNode
+  /** 行のセル */
+  children?: ReactNode
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    expandButtonLabel?: DecoratorFunctionType
+    collapseButtonLabel?: DecoratorFunctionType
+  }
+}
+type ElementProps = Omit<HTMLAttributes<HTMLTableRowElement>, keyof Props>
+
+const EXPAND_BUTTON_LABEL = '展開する'
+const COLLAPSE_BUTTON_LABEL = '折りたたむ'
+
+const executeDecorator = (defaultText: string, decorator: DecoratorFunctionType | undefined) =>
+  decorator ? decorator(defaultText) : defaultText
+
+export const ExpandableRow: VFC<Props & ElementProps> = ({
+  expanded = false,
+  onToggle,
+  expandable = true,
+  level = 1,
+  details,
+  children,
+  className = '',
+  decorator,
+  ...props
+}) => {
+  const theme = useTheme()
+  const classNames = useExpandableRowClassNames()
+  const detailsId = useId()
+  const hasDetails = details !== undefined && details !== null
+  const { isTreeGrid, registerExpandableRow } = useContext(TableTreeContext)
+
+  useEffect(() => registerExpandableRow(), [registerExpandableRow])
+
+  return (
+    <>
+      <tr
+        {...props}
+        aria-level={isTreeGrid ? level : undefined}
+        className={`${className} ${classNames.wrapper}`}
+      >
+        <ToggleTd $level={level} themes={theme} className={classNames.toggleCell}>
+          {expandable && (
+            <ToggleButton
+              type="button"
+              onClick={onToggle}
+              aria-expanded={expanded}
+              aria-controls={hasDetails && expanded ? detailsId : undefined}
+              className={classNames.toggleButton}
+            >
+              {expanded ? (
+                <FaCaretDownIcon
+                  alt={executeDecorator(COLLAPSE_BUTTON_LABEL, decorator?.collapseButtonLabel)}
+                />
+              ) : (
+                <FaCaretRightIcon
+                  alt={executeDecorator(EXPAND_BUTTON_LABEL, decorator?.expandButtonLabel)}
+                />
+              )}
+            </ToggleButton>
+          )}
+        </ToggleTd>
+        {children}
+      </tr>
+      {hasDetails && expanded && (
+        <tr id={detailsId} className={classNames.details}>
+          <DetailsTd colSpan={1000} themes={theme}>
+            {details}
+          </DetailsTd>
+        </tr>
+      )}
+    </>
+  )
+}
+
+const ToggleTd = styled(Td)<{ themes: Theme; $level: number }>`
+  ${({ themes: { spacingByChar }, $level }) => css`
+    width: 0;
+    white-space: nowrap;
+
+    /* 階層の深さに応じてインデントする */
+    padding-left: calc(${spacingByChar(1)} + ${spacingByChar(1.5)} * ${Math.max($level - 1, 0)});
+  `}
+`
+const ToggleButton = styled(UnstyledButton)`
+  display: inline-flex;
+  align-items: center;
+  cursor: pointer;
+`
+const DetailsTd = styled(Td)<{ themes: Theme }>`
+  ${({ themes: { color } }) => css`
+    background-color: ${color.COLUMN};
+  `}
+`
@@ -0,0 +1,83 @@
+import React, { HTMLAttributes, ReactNode, VFC, useContext } from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+import { UnstyledButton } from '../Button'
+import { FaCaretDownIcon, FaCaretRightIcon } from '../Icon'
+
+import { actionRowCellStyle } from './BulkActionRow'
+import { TableTreeContext } from './Table'
+import { useGroupHeaderRowClassNames } from './useClassNames'
+
+export type Props = {
+  /** グループの見出し */
+  children?: ReactNode
+  /** `true` のとき、グループが展開された状態になる。`onToggle` と合わせて指定する */
+  expanded?: boolean
+  /** 指定した場合、見出しをクリックしてグループを展開・折りたたみできるようになる */
+  onToggle?: () => void
+  /** グループの階層の深さ。1 から始まり、role="treegrid" のテーブルでは `aria-level` として支援技術に伝えられる */
+  level?: number
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+}
+type ElementProps = Omit<HTMLAttributes<HTMLTableRowElement>, keyof Props>
+
+export const GroupHeaderRow: VFC<Props & ElementProps> = ({
+  children,
+  expanded = true,
+  onToggle,
+  level = 1,
+  className = '',
+  ...props
+}) => {
+  const themes = useTheme()
+  const classNames = useGroupHeaderRowClassNames()
+  const { isTreeGrid } = useContext(TableTreeContext)
+
+  return (
+    <tr
+      {...props}
+      aria-level={isTreeGrid ? level : undefined}
+      className={`${className} ${classNames.wrapper}`}
+    >
+      {/* 続く行のグループの見出しであることを示す */}
+      <Cell colSpan={1000} scope="rowgroup" themes={themes}>
+        {onToggle ? (
+          <ToggleButton
+            type="button"
+            onClick={onToggle}
+            aria-expanded={expanded}
+            themes={themes}
+            className={classNames.toggleButton}
+          >
+            {expanded ? <FaCaretDownIcon /> : <FaCaretRightIcon />}
+            {children}
+          </ToggleButton>
+        ) : (
+          children
+        )}
+      </Cell>
+    </tr>
+  )
+}
+
+const Cell = styled.th<{ themes: Theme }>(
+  ({ themes }) => css`
+    /* Table の th のスタイルより優先する */
+    && {
+      ${actionRowCellStyle(themes)}
+    }
+    font-weight: bold;
+    text-align: left;
+  `,
+)
+const ToggleButton = styled(UnstyledButton)<{ themes: Theme }>`
+  ${({ themes: { spacingByChar } }) => css`
+    display: inline-flex;
+    align-items: center;
+    gap: ${spacingByChar(0.5)};
+    font-weight: inherit;
+    cursor: pointer;
+  `}
+`
@@ -7,15 +7,32 @@ import { VISUALLY_HIDDEN_STYLE } from '../../constants'
 import { Base as BaseComponent } from '../Base'
 import { Button } from '../Button'
 import { CheckBox as CheckBoxComponent } from '../CheckBox'
-import { FaArrowDownIcon } from '../Icon'
+import { Input } from '../Input'
+import { Cluster } from '../Layout'
+import { Select } from '../Select'
 import { Text } from '../Text'
 
-import { BulkActionRow, EmptyTableBody, Table, Td, Th } from '.'
+import {
+  BulkActionRow,
+  ColumnVisibility as ColumnVisibilityMap,
+  ColumnVisibilityPicker,
+  DataTable,
+  DataTableColumn,
+  EmptyTableBody,
+  ExpandableRow,
+  GroupHeaderRow,
+  Table,
+  TableExportButton,
+  TableScroller,
+  Td,
+  Th,
+  VirtualizedTableBody,
+} from '.'
 
 export default {
   title: 'Table',
   component: Table,
-  subcomponents: { Th, Td, BulkActionRow },
+  subcomponents: { Th, Td, BulkActionRow, DataTable },
 }
 
 const data = [
@@ -92,13 +109,12 @@ export const All: Story = () => (
                 <CheckBox name="tableAllCheckBox" checked={false} />
               </label>
             </Th>
-            <Th aria-sort="ascending" highlighted={true}>
-              <ClickableCellButton onClick={action('clicked')}>
-                <span style={{ lineHeight: '1.5' }}>Name</span>
-                <ArrowIcon alt="昇順" />
-              </ClickableCellButton>
+            <Th sort="asc" onSort={action('onSort')} highlighted={true}>
+              Name
+            </Th>
+            <Th sort="none" onSort={action('onSort')}>
+              Calories
             </Th>
-            <Th>Calories</Th>
             <Th>Fat (g)</Th>
             <Th>Carbs (g)</Th>
             <Th>Protein (g)</Th>
@@ -143,13 +159,12 @@ export const All: Story = () => (
                   <CheckBox name="tableAllCheckBox" checked={false} />
                 </label>
               </Th>
-              <Th aria-sort="ascending" highlighted={true}>
-                <ClickableCellButton onClick={action('clicked')}>
-                  <span style={{ lineHeight: '1.5' }}>Name</span>
-                  <ArrowIcon alt="昇順" />
-                </ClickableCellButton>
+              <Th sort="asc" onSort={action('onSort')} highlighted={true}>
+                Name
+              </Th>
+              <Th sort="none" onSort={action('onSort')}>
+                Calories
               </Th>
-              <Th>Calories</Th>
               <Th>Fat (g)</Th>
               <Th>Carbs (g)</Th>
               <Th>Protein (g)</Th>
@@ -282,6 +297,380 @@ export const All: Story = () => (
 )
 All.storyName = 'all'
 
+const dataTableColumns: Array<DataTableColumn<(typeof data)[number]>> = [
+  { key: 'name', header: 'Name', sortable: true },
+  { key: 'calories', header: 'Calories', sortable: true, align: 'right' },
+  { key: 'fat', header: 'Fat (g)', sortable: true, align: 'right' },
+  { key: 'carbs', header: 'Carbs (g)', align: 'right' },
+  { key: 'protein', header: 'Protein (g)', align: 'right' },
+  {
+    key: 'button',
+    header: 'Button',
+    exportable: false,
+    cell: ({ name }) => (
+      <Button size="s" onClick={action(`clicked ${name}`)}>
+        Button
+      </Button>
+    ),
+  },
+]
+
+export const DataTableStory: Story = () => (
+  <Ul>
+    <li>
+      sortable and selectable
+      <DataTable
+        columns={dataTableColumns}
+        rows={data}
+        rowKey={({ name }) => name}
+        selectable
+        defaultSort={{ key: 'calories', order: 'desc' }}
+        onChangeSort={action('onChangeSort')}
+        onChangeSelected={action('onChangeSelected')}
+        bulkActionArea={(selectedKeys) => `${selectedKeys.length} 件選択中`}
+      />
+    </li>
+    <li>
+      resizable and reorderable columns
+      <DataTable
+        columns={dataTableColumns}
+        rows={data}
+        rowKey={({ name }) => name}
+        resizableColumns
+        reorderableColumns
+        defaultColumnLayout={{ order: ['calories', 'name'], widths: { name: 200 } }}
+        onColumnLayoutChange={action('onColumnLayoutChange')}
+      />
+    </li>
+  </Ul>
+)
+DataTableStory.storyName = 'DataTable'
+
+export const ColumnVisibility: Story = () => {
+  const [visibility, setVisibility] = React.useState<ColumnVisibilityMap | null>(null)
+  const columns: Array<DataTableColumn<(typeof data)[number]>> = dataTableColumns.map((column) =>
+    column.key === 'name'
+      ? { ...column, required: true }
+      : column.key === 'protein'
+      ? { ...column, defaultHidden: true }
+      : column,
+  )
+
+  return (
+    <Ul>
+      <li>
+        <ColumnVisibilityPicker
+          columns={columns}
+          value={visibility}
+          onChange={(nextVisibility) => {
+            action('onChange')(nextVisibility)
+            setVisibility(nextVisibility)
+          }}
+        />
+        <DataTable
+          columns={columns}
+          rows={data}
+          rowKey={({ name }) => name}
+          columnVisibility={visibility}
+        />
+      </li>
+    </Ul>
+  )
+}
+ColumnVisibility.storyName = 'ColumnVisibilityPicker'
+
+export const Export: Story = () => (
+  <Ul>
+    <li>
+      <Cluster>
+        <TableExportButton columns={dataTableColumns} rows={data} filename="nutrition" />
+        <TableExportButton
+          columns={dataTableColumns}
+          rows={data}
+          encoding="shift_jis"
+          filename="nutrition"
+        >
+          CSV をダウンロード（Shift_JIS）
+        </TableExportButton>
+        <TableExportButton
+          columns={dataTableColumns}
+          rows={data}
+          format="tsv"
+          filename="nutrition"
+        />
+      </Cluster>
+    </li>
+  </Ul>
+)
+Export.storyName = 'TableExportButton'
+
+type Employee = { id: string; name: string; employmentType: string }
+
+const employmentTypes = [
+  { value: '正社員', label: '正社員' },
+  { value: '契約社員', label: '契約社員' },
+  { value: 'アルバイト', label: 'アルバイト' },
+]
+
+const editableColumns: Array<DataTableColumn<Employee>> = [
+  { key: 'id', header: '社員番号' },
+  {
+    key: 'name',
+    header: '氏名',
+    editor: ({ value, onChange, error, errorMessageId }) => (
+      <Input
+        name="name"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        error={error}
+        aria-describedby={errorMessageId}
+        aria-label="氏名"
+      />
+    ),
+    validate: (value) => (value.trim() === '' ? '氏名を入力してください' : null),
+  },
+  {
+    key: 'employmentType',
+    header: '雇用形態',
+    editor: ({ value, onChange, error }) => (
+      <Select
+        name="employmentType"
+        value={value}
+        options={employmentTypes}
+        onChange={(e) => onChange(e.target.value)}
+        error={error}
+        aria-label="雇用形態"
+      />
+    ),
+  },
+]
+
+export const EditableCells: Story = () => {
+  const [employees, setEmployees] = React.useState<Employee[]>([
+    { id: '001', name: '山田 太郎', employmentType: '正社員' },
+    { id: '002', name: '鈴木 花子', employmentType: '契約社員' },
+    { id: '003', name: '佐藤 次郎', employmentType: 'アルバイト' },
+  ])
+
+  return (
+    <Ul>
+      <li>
+        editable cells
+        <DataTable
+          columns={editableColumns}
+          rows={employees}
+          rowKey={({ id }) => id}
+          onCellCommit={(rowKey, columnKey, value) => {
+            action('onCellCommit')(rowKey, columnKey, value)
+            setEmployees((current) =>
+              current.map((employee) =>
+                employee.id === rowKey ? { ...employee, [columnKey]: value } : employee,
+              ),
+            )
+          }}
+        />
+      </li>
+    </Ul>
+  )
+}
+EditableCells.storyName = 'editable cells'
+
+export const GridNavigation: Story = () => (
+  <Ul>
+    <li>
+      gridNavigation
+      <DataTable
+        gridNavigation
+        columns={dataTableColumns}
+        rows={data}
+        rowKey={({ name }) => name}
+        selectable
+      />
+    </li>
+  </Ul>
+)
+GridNavigation.storyName = 'grid navigation'
+
+const manyRows = Array.from({ length: 10000 }, (_, i) => ({
+  id: i + 1,
+  name: `従業員 ${i + 1}`,
+  // 行の高さが可変でも表示できることを確認するため、一部の行を複数行にする
+  note: i % 7 === 0 ? '複数行の\n備考' : '備考',
+}))
+
+export const Virtualized: Story = () => (
+  <Ul>
+    <li>
+      10,000 rows
+      <div style={{ height: '400px', overflow: 'auto' }}>
+        <Table fixedHead>
+          <thead>
+            <tr>
+              <Th>ID</Th>
+              <Th>Name</Th>
+              <Th>Note</Th>
+            </tr>
+          </thead>
+          <VirtualizedTableBody
+            items={manyRows}
+            renderRow={({ id, name, note }) => (
+              <tr key={id}>
+                <Td>{id}</Td>
+                <Td>{name}</Td>
+                <Td style={{ whiteSpace: 'pre-wrap' }}>{note}</Td>
+              </tr>
+            )}
+          />
+        </Table>
+      </div>
+    </li>
+  </Ul>
+)
+Virtualized.storyName = 'VirtualizedTableBody'
+
+const payrollItems = Array.from({ length: 40 }, (_, i) => `支給項目 ${i + 1}`)
+
+export const FixedColumns: Story = () => (
+  <Ul>
+    <li>
+      fixed columns
+      <TableScroller style={{ maxHeight: '400px' }}>
+        <Table fixedHead>
+          <thead>
+            <tr>
+              <Th fixed="left">社員番号</Th>
+              <Th fixed="left">氏名</Th>
+              {payrollItems.map((item) => (
+                <Th key={item} style={{ whiteSpace: 'nowrap' }}>
+                  {item}
+                </Th>
+              ))}
+              <Th fixed="right">合計</Th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(({ name }, i) => (
+              <tr key={name}>
+                <Td fixed="left">{String(i + 1).padStart(3, '0')}</Td>
+                <Td fixed="left" style={{ whiteSpace: 'nowrap' }}>
+                  {name}
+                </Td>
+                {payrollItems.map((item) => (
+                  <Td key={item}>10,000</Td>
+                ))}
+                <Td fixed="right">400,000</Td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </TableScroller>
+    </li>
+  </Ul>
+)
+FixedColumns.storyName = 'fixed columns'
+
+const departments = [
+  {
+    name: '開発部',
+    children: [
+      { name: 'プロダクト開発課', members: ['山田 太郎', '鈴木 花子'] },
+      { name: 'インフラ課', members: ['佐藤 次郎'] },
+    ],
+  },
+  { name: '営業部', children: [{ name: '第一営業課', members: ['高橋 三郎'] }] },
+]
+
+export const ExpandableRows: Story = () => {
+  const [expanded, setExpanded] = React.useState<string[]>(['開発部'])
+  const toggle = (name: string) =>
+    setExpanded((current) =>
+      current.includes(name) ? current.filter((n) => n !== name) : [...current, name],
+    )
+
+  return (
+    <Ul>
+      <li>
+        tree
+        <Table gridNavigation>
+          <thead>
+            <tr>
+              <Th>
+                <VisuallyHiddenText>展開</VisuallyHiddenText>
+              </Th>
+              <Th>部署・従業員</Th>
+            </tr>
+          </thead>
+          <tbody>
+            {departments.map((department) => (
+              <React.Fragment key={department.name}>
+                <ExpandableRow
+                  expanded={expanded.includes(department.name)}
+                  onToggle={() => toggle(department.name)}
+                >
+                  <Td>{department.name}</Td>
+                </ExpandableRow>
+                {expanded.includes(department.name) &&
+                  department.children.map((child) => (
+                    <React.Fragment key={child.name}>
+                      <ExpandableRow
+                        level={2}
+                        expanded={expanded.includes(child.name)}
+                        onToggle={() => toggle(child.name)}
+                      >
+                        <Td>{child.name}</Td>
+                      </ExpandableRow>
+                      {expanded.includes(child.name) &&
+                        child.members.map((member) => (
+                          <ExpandableRow key={member} level={3} expandable={false}>
+                            <Td>{member}</Td>
+                          </ExpandableRow>
+                        ))}
+                    </React.Fragment>
+                  ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </Table>
+      </li>
+      <li>
+        details and group header
+        <Table>
+          <thead>
+            <tr>
+              <Th>
+                <VisuallyHiddenText>詳細</VisuallyHiddenText>
+              </Th>
+              <Th>Name</Th>
+              <Th>Calories</Th>
+            </tr>
+          </thead>
+          <tbody>
+            <GroupHeaderRow
+              expanded={expanded.includes('drinks')}
+              onToggle={() => toggle('drinks')}
+            >
+              Drinks
+            </GroupHeaderRow>
+            {expanded.includes('drinks') &&
+              data.map(({ name, calories, fat, carbs, protein }) => (
+                <ExpandableRow
+                  key={name}
+                  expanded={expanded.includes(name)}
+                  onToggle={() => toggle(name)}
+                  details={`Fat: ${fat}g / Carbs: ${carbs}g / Protein: ${protein}g`}
+                >
+                  <Td>{name}</Td>
+                  <Td>{calories}</Td>
+                </ExpandableRow>
+              ))}
+          </tbody>
+        </Table>
+      </li>
+    </Ul>
+  )
+}
+ExpandableRows.storyName = 'expandable rows'
+
 const Ul = styled.ul`
   list-style: none;
   padding: 0;
@@ -296,27 +685,6 @@ const CheckBox = styled(CheckBoxComponent)`
   vertical-align: middle;
 `
 
-const ClickableCellButton = styled.button`
-  appearance: none;
-  padding: 8px 16px;
-  border: 0;
-  box-sizing: border-box;
-  background-color: transparent;
-  width: calc(100% + 32px);
-  height: 2.5rem;
-  display: flex;
-  align-items: center;
-  justify-content: space-between;
-  margin: -8px -16px;
-  font-family: inherit;
-  font-size: inherit;
-  font-weight: inherit;
-`
-
-const ArrowIcon = styled(FaArrowDownIcon)`
-  transform: rotate(180deg);
-`
-
 const Base = styled(BaseComponent)`
   overflow-x: auto;
 `
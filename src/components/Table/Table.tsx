@@ -1,9 +1,20 @@
-import React, { ReactNode, TableHTMLAttributes, VFC, createContext } from 'react'
+import React, {
+  KeyboardEvent,
+  ReactNode,
+  TableHTMLAttributes,
+  VFC,
+  createContext,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
 import styled, { css } from 'styled-components'
 
 import { Theme, useTheme } from '../../hooks/useTheme'
 
 import { useClassNames } from './useClassNames'
+import { useGridNavigation } from './useGridNavigation'
 
 export const TableGroupContext = createContext<{
   group: 'head' | 'body'
@@ -11,9 +22,25 @@ export const TableGroupContext = createContext<{
   group: 'body',
 })
 
+export const TableTreeContext = createContext<{
+  /** テーブルが role="treegrid" で、行の階層を aria-level で伝えられる */
+  isTreeGrid: boolean
+  /** 展開できる行が表示されたことを伝える。戻り値の関数で取り消す */
+  registerExpandableRow: () => () => void
+}>({
+  isTreeGrid: false,
+  registerExpandableRow: () => () => undefined,
+})
+
 type Props = {
   /** `true` のとき、スクロール時にヘッダーを固定表示する */
   fixedHead?: boolean
+  /**
+   * `true` のとき、role="grid" を設定し、スプレッドシートのようにキーボードでセル間を移動できるようにする
+   * 矢印キーで隣のセル、Home / End で行の先頭・末尾、PageUp / PageDown で 10 行ずつ、Ctrl + Home / End で最初・最後のセルに移動する
+   * 操作できる要素が複数あるセルでは、Enter / F2 キーでセル内に移動し、Tab キーでセル内の要素を順に移動、Escape キーでセルに戻る
+   */
+  gridNavigation?: boolean
   /** テーブルの内容 */
   children?: ReactNode
   /** コンポーネントに適用するクラス名 */
@@ -23,28 +50,56 @@ type ElementProps = Omit<TableHTMLAttributes<HTMLTableElement>, keyof Props>
 
 export const Table: VFC<Props & ElementProps> = ({
   fixedHead = false,
+  gridNavigation = false,
   children,
   className = '',
+  onKeyDown,
   ...props
 }) => {
   const theme = useTheme()
   const classNames = useClassNames().table
+  const tableRef = useRef<HTMLTableElement>(null)
+  const handleGridKeyDown = useGridNavigation(tableRef, gridNavigation)
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLTableElement>) => {
+      onKeyDown && onKeyDown(e)
+      handleGridKeyDown(e)
+    },
+    [handleGridKeyDown, onKeyDown],
+  )
+
+  // 展開できる行を含む場合は、行の階層を伝えられるよう role="treegrid" にする
+  const [expandableRowCount, setExpandableRowCount] = useState(0)
+  const registerExpandableRow = useCallback(() => {
+    setExpandableRowCount((count) => count + 1)
+    return () => setExpandableRowCount((count) => count - 1)
+  }, [])
+  const role =
+    props.role ?? (expandableRowCount > 0 ? 'treegrid' : gridNavigation ? 'grid' : undefined)
+  const treeContextValue = useMemo(
+    () => ({ isTreeGrid: role === 'treegrid', registerExpandableRow }),
+    [registerExpandableRow, role],
+  )
 
   return (
     <Wrapper
       {...props}
+      role={role}
+      ref={tableRef}
+      onKeyDown={handleKeyDown}
       fixedHead={fixedHead}
+      gridNavigation={gridNavigation}
       themes={theme}
       className={`${className} ${classNames.wrapper}`}
     >
-      {children}
+      <TableTreeContext.Provider value={treeContextValue}>{children}</TableTreeContext.Provider>
     </Wrapper>
   )
 }
 
-const Wrapper = styled.table<{ fixedHead: boolean; themes: Theme }>`
-  ${({ fixedHead, themes }) => {
-    const { color, zIndex } = themes
+const Wrapper = styled.table<{ fixedHead: boolean; gridNavigation: boolean; themes: Theme }>`
+  ${({ fixedHead, gridNavigation, themes }) => {
+    const { color, shadow, zIndex } = themes
 
     return css`
       width: 100%;
@@ -69,6 +124,16 @@ const Wrapper = styled.table<{ fixedHead: boolean; themes: Theme }>`
       th {
         background-color: ${color.HEAD};
       }
+
+      ${gridNavigation &&
+      css`
+        th,
+        td {
+          &:focus-visible {
+            ${shadow.focusIndicatorStyles}
+          }
+        }
+      `}
     `
   }}
 `
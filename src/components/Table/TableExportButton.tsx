@@ -0,0 +1,83 @@
+import React, { ComponentProps, ReactNode, useCallback } from 'react'
+
+import { Button } from '../Button'
+import { FaFileExportIcon } from '../Icon'
+
+import { DataTableColumn } from './dataTableHelper'
+import {
+  ExportEncoding,
+  ExportOptions,
+  encodeExportText,
+  getExportFileName,
+  getExportMimeType,
+  serializeTable,
+} from './tableExportHelper'
+import { useTableExportButtonClassNames } from './useClassNames'
+
+type Props<T> = ExportOptions & {
+  /** 列の定義 */
+  columns: Array<DataTableColumn<T>>
+  /** 出力する行のデータ。表示中の行だけを出力する場合は、絞り込んだ後の行を渡す */
+  rows: T[]
+  /** 文字コード。Windows 版の Excel で開く場合は `shift_jis` を指定する */
+  encoding?: ExportEncoding
+  /** ダウンロードするファイルの名前。拡張子を省略した場合は出力形式に応じて付与する */
+  filename?: string
+  /** ボタンの内容 */
+  children?: ReactNode
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+}
+type ElementProps<T> = Omit<ComponentProps<typeof Button>, keyof Props<T> | 'onClick' | 'prefix'>
+
+const DEFAULT_FILENAME = 'export'
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  anchor.click()
+  // ダウンロードの開始前に URL を無効にしないよう、解放を遅らせる
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export function TableExportButton<T>({
+  columns,
+  rows,
+  format = 'csv',
+  sort,
+  columnLayout,
+  columnVisibility,
+  encoding = 'utf-8',
+  filename = DEFAULT_FILENAME,
+  children,
+  className = '',
+  ...props
+}: Props<T> & ElementProps<T>) {
+  const classNames = useTableExportButtonClassNames()
+
+  const handleClick = useCallback(() => {
+    const text = serializeTable(columns, rows, {
+      format,
+      sort,
+      columnLayout,
+      columnVisibility,
+    })
+    download(
+      new Blob([encodeExportText(text, encoding)], { type: getExportMimeType(format, encoding) }),
+      getExportFileName(filename, format),
+    )
+  }, [columnLayout, columnVisibility, columns, encoding, filename, format, rows, sort])
+
+  return (
+    <Button
+      {...props}
+      prefix={<FaFileExportIcon />}
+      onClick={handleClick}
+      className={`${className} ${classNames.wrapper}`}
+    >
+      {children ?? `${format.toUpperCase()} をダウンロード`}
+    </Button>
+  )
+}
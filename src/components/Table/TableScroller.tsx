@@ -0,0 +1,196 @@
+import React, {
+  HTMLAttributes,
+  ReactNode,
+  VFC,
+  useCallback,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react'
+import styled, { css } from 'styled-components'
+
+import { Theme, useTheme } from '../../hooks/useTheme'
+
+import { updateFixedCellOffsets, updateRowFixedCellOffsets } from './fixedCellHelper'
+import { useTableScrollerClassNames } from './useClassNames'
+
+type Props = {
+  /** スクロールさせるテーブル */
+  children?: ReactNode
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+}
+type ElementProps = Omit<HTMLAttributes<HTMLDivElement>, keyof Props>
+
+type ScrollState = {
+  leftWidth: number
+  rightWidth: number
+  scrollbarWidth: number
+  isScrolledFromLeft: boolean
+  isScrolledFromRight: boolean
+}
+
+const initialScrollState: ScrollState = {
+  leftWidth: 0,
+  rightWidth: 0,
+  scrollbarWidth: 0,
+  isScrolledFromLeft: false,
+  isScrolledFromRight: false,
+}
+
+export const TableScroller: VFC<Props & ElementProps> = ({
+  className = '',
+  children,
+  ...props
+}) => {
+  const theme = useTheme()
+  const classNames = useTableScrollerClassNames()
+  const scrollerRef = useRef<HTMLDivElement>(null)
+  const [scrollState, setScrollState] = useState<ScrollState>(initialScrollState)
+
+  // スクロールした時は、影を表示するかどうかだけを更新する
+  const updateScrollPosition = useCallback(() => {
+    const scroller = scrollerRef.current
+    if (!scroller) {
+      return
+    }
+    const { scrollLeft, scrollWidth, clientWidth } = scroller
+    const isScrolledFromLeft = scrollLeft > 0
+    // スクロール位置が小数になる環境があるため 1px の誤差を許容する
+    const isScrolledFromRight = scrollLeft + clientWidth < scrollWidth - 1
+    setScrollState((current) =>
+      current.isScrolledFromLeft === isScrolledFromLeft &&
+      current.isScrolledFromRight === isScrolledFromRight
+        ? current
+        : { ...current, isScrolledFromLeft, isScrolledFromRight },
+    )
+  }, [])
+
+  // セルの幅が変わった時に、固定表示の位置を計算し直す
+  const updateLayout = useCallback(() => {
+    const scroller = scrollerRef.current
+    const table = scroller?.querySelector('table')
+    if (!scroller || !table) {
+      return
+    }
+    const { leftWidth, rightWidth } = updateFixedCellOffsets(table)
+    const scrollbarWidth = scroller.offsetWidth - scroller.clientWidth
+    setScrollState((current) =>
+      current.leftWidth === leftWidth &&
+      current.rightWidth === rightWidth &&
+      current.scrollbarWidth === scrollbarWidth
+        ? current
+        : { ...current, leftWidth, rightWidth, scrollbarWidth },
+    )
+    updateScrollPosition()
+  }, [updateScrollPosition])
+
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current
+    if (!scroller) {
+      return
+    }
+    updateLayout()
+    scroller.addEventListener('scroll', updateScrollPosition, { passive: true })
+    if (typeof ResizeObserver === 'undefined' || typeof MutationObserver === 'undefined') {
+      return () => scroller.removeEventListener('scroll', updateScrollPosition)
+    }
+
+    // テーブルの幅が変わらなくても列の幅は変わるため、テーブルと先頭行のセルの大きさを監視する
+    const resizeObserver = new ResizeObserver(updateLayout)
+    let observedElements: Element[] = []
+    const observeSizes = () => {
+      const table = scroller.querySelector('table')
+      const elements: Element[] = table ? [table, ...Array.from(table.rows[0]?.cells ?? [])] : []
+      observedElements
+        .filter((element) => !elements.includes(element))
+        .forEach((element) => resizeObserver.unobserve(element))
+      elements
+        .filter((element) => !observedElements.includes(element))
+        .forEach((element) => resizeObserver.observe(element))
+      observedElements = elements
+    }
+    resizeObserver.observe(scroller)
+    observeSizes()
+
+    // 行の追加や列の並び替えなど内容が変わった場合は、変わった行だけ固定表示の位置を計算し直す
+    const mutationObserver = new MutationObserver((records) => {
+      const rows = new Set<HTMLTableRowElement>()
+      records.forEach(({ target, addedNodes }) => {
+        const row = target instanceof Element ? target.closest('tr') : null
+        row && rows.add(row)
+        addedNodes.forEach((node) => {
+          if (node instanceof HTMLTableRowElement) {
+            rows.add(node)
+          } else if (node instanceof Element) {
+            node.querySelectorAll('tr').forEach((added) => rows.add(added))
+          }
+        })
+      })
+      rows.forEach((row) => row.isConnected && updateRowFixedCellOffsets(row))
+      observeSizes()
+    })
+    mutationObserver.observe(scroller, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['class'],
+    })
+
+    return () => {
+      scroller.removeEventListener('scroll', updateScrollPosition)
+      resizeObserver.disconnect()
+      mutationObserver.disconnect()
+    }
+  }, [updateLayout, updateScrollPosition])
+
+  const { leftWidth, rightWidth, scrollbarWidth, isScrolledFromLeft, isScrolledFromRight } =
+    scrollState
+
+  return (
+    <Wrapper className={`${className} ${classNames.wrapper}`}>
+      <Scroller {...props} ref={scrollerRef} className={classNames.scroller}>
+        {children}
+      </Scroller>
+      {/* 固定表示しているセルの下にコンテンツが隠れていることを示す影 */}
+      {isScrolledFromLeft && leftWidth > 0 && (
+        <Shadow
+          themes={theme}
+          position="left"
+          style={{ left: leftWidth }}
+          className={classNames.shadow}
+        />
+      )}
+      {isScrolledFromRight && rightWidth > 0 && (
+        <Shadow
+          themes={theme}
+          position="right"
+          style={{ right: rightWidth + scrollbarWidth }}
+          className={classNames.shadow}
+        />
+      )}
+    </Wrapper>
+  )
+}
+
+const Wrapper = styled.div`
+  position: relative;
+`
+const Scroller = styled.div`
+  overflow: auto;
+`
+const Shadow = styled.div<{ themes: Theme; position: 'left' | 'right' }>`
+  ${({ themes: { color, zIndex }, position }) => css`
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    width: 8px;
+    background: linear-gradient(
+      to ${position === 'left' ? 'right' : 'left'},
+      ${color.TRANSPARENCY_15},
+      transparent
+    );
+    pointer-events: none;
+    z-index: ${zIndex.FIXED_MENU};
+  `}
+`
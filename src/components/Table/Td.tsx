@@ -3,6 +3,7 @@ import styled, { css } from 'styled-components'
 
 import { Theme, useTheme } from '../../hooks/useTheme'
 
+import { fixedCellStyle, getFixedClassName } from './fixedCellHelper'
 import { useTdClassNames } from './useClassNames'
 
 export type Props = {
@@ -10,13 +11,25 @@ export type Props = {
   nullable?: boolean
   /** セルの内容 */
   children?: ReactNode
+  /** 横スクロール時にセルを左端または右端に固定表示する */
+  fixed?: 'left' | 'right'
 }
 type ElementProps = Omit<TdHTMLAttributes<HTMLTableCellElement>, keyof Props>
 
-export const Td: VFC<Props & ElementProps> = ({ nullable = false, className = '', ...props }) => {
+export const Td: VFC<Props & ElementProps> = ({
+  nullable = false,
+  fixed,
+  className = '',
+  ...props
+}) => {
   const theme = useTheme()
   const classNames = useTdClassNames()
-  const wrapperClass = [className, nullable && 'nullable', classNames.wrapper]
+  const wrapperClass = [
+    className,
+    nullable && 'nullable',
+    fixed && getFixedClassName(fixed),
+    classNames.wrapper,
+  ]
     .filter((c) => !!c)
     .join(' ')
 
@@ -33,7 +46,7 @@ const StyledTd = styled.td<{ themes: Theme }>`
   }
 
   ${({ themes }) => {
-    const { fontSize, leading, spacingByChar, color, border } = themes
+    const { fontSize, leading, spacingByChar, color, border, zIndex } = themes
 
     return css`
       color: ${color.TEXT_BLACK};
@@ -44,6 +57,15 @@ const StyledTd = styled.td<{ themes: Theme }>`
       line-height: 1.5;
       vertical-align: middle;
       box-sizing: border-box;
+
+      ${fixedCellStyle}
+      &.fixedLeft,
+      &.fixedRight {
+        background-color: ${color.WHITE};
+
+        /* fixedHead の thead より下に重ねるため、FIXED_MENU よりひとつ小さい値を指定しています */
+        z-index: ${zIndex.FIXED_MENU - 1};
+      }
     `
   }};
 `
@@ -1,11 +1,18 @@
-import React, { ReactNode, TdHTMLAttributes, VFC } from 'react'
+import React, { ReactNode, TdHTMLAttributes, VFC, useMemo } from 'react'
 import styled, { css } from 'styled-components'
 
+import { VISUALLY_HIDDEN_STYLE } from '../../constants'
 import { Theme, useTheme } from '../../hooks/useTheme'
 import { isTouchDevice } from '../../libs/ua'
+import { FaSortDownIcon, FaSortIcon, FaSortUpIcon } from '../Icon'
 
+import { ColumnResizeHandle } from './ColumnResizeHandle'
+import { fixedCellStyle, getFixedClassName } from './fixedCellHelper'
 import { useThClassNames } from './useClassNames'
 
+type SortDirection = 'asc' | 'desc' | 'none'
+type DecoratorFunctionType = (text: string) => string
+
 export type Props = {
   /** `true` のとき、セルの色をハイライトする */
   highlighted?: boolean
@@ -13,26 +20,129 @@ export type Props = {
   children?: ReactNode
   /** セルをクリックした時に発火するコールバック関数 */
   onClick?: () => void
+  /**
+   * 並び替えの状態。指定した場合、セル内に並び替え用のボタンを表示する
+   */
+  sort?: SortDirection
+  /** 並び替え用のボタンをクリックした時に発火するコールバック関数 */
+  onSort?: () => void
+  /** 横スクロール時にセルを左端または右端に固定表示する */
+  fixed?: 'left' | 'right'
+  /** 列の幅を変更している間に発火するコールバック関数。指定した場合、セルの右端に幅を変更するハンドルを表示する */
+  onResize?: (width: number) => void
+  /** 列の幅の変更を終えた時に発火するコールバック関数。ドラッグ中は `onResize` だけが発火する */
+  onResizeEnd?: (width: number) => void
+  /** 列の幅の変更が中断された時に発火するコールバック関数。`onResize` で変更した幅を元に戻す */
+  onResizeCancel?: () => void
+  /** コンポーネント内のテキストを変更する関数 */
+  decorator?: {
+    resizeHandleLabel?: DecoratorFunctionType
+    sortDirectionAscending?: DecoratorFunctionType
+    sortDirectionDescending?: DecoratorFunctionType
+    sortDirectionNone?: DecoratorFunctionType
+  }
 }
 type ElementProps = Omit<TdHTMLAttributes<HTMLTableCellElement>, keyof Props>
 
+const SORT_DIRECTION_TEXT = {
+  asc: '昇順',
+  desc: '降順',
+  none: '並び替えなし',
+}
+const RESIZE_HANDLE_LABEL = '列の幅を変更'
+const ARIA_SORT = {
+  asc: 'ascending',
+  desc: 'descending',
+  none: 'none',
+} as const
+
+const executeDecorator = (defaultText: string, decorator: DecoratorFunctionType | undefined) =>
+  decorator ? decorator(defaultText) : defaultText
+
 export const Th: VFC<Props & ElementProps> = ({
   highlighted = false,
+  sort,
+  onSort,
+  fixed,
+  onResize,
+  onResizeEnd,
+  onResizeCancel,
+  decorator,
   className = '',
+  children,
   ...props
 }) => {
   const theme = useTheme()
   const classNames = useThClassNames()
-  const wrapperClass = [className, highlighted && 'highlighted', classNames.wrapper]
+  const wrapperClass = [
+    className,
+    highlighted && 'highlighted',
+    sort && 'sortable',
+    onResize && 'resizable',
+    fixed && getFixedClassName(fixed),
+    classNames.wrapper,
+  ]
     .filter((c) => !!c)
     .join(' ')
 
-  return <StyledTh {...props} className={wrapperClass} themes={theme} />
+  const sortDirectionText = useMemo(() => {
+    if (!sort) {
+      return ''
+    }
+    return executeDecorator(
+      SORT_DIRECTION_TEXT[sort],
+      {
+        asc: decorator?.sortDirectionAscending,
+        desc: decorator?.sortDirectionDescending,
+        none: decorator?.sortDirectionNone,
+      }[sort],
+    )
+  }, [decorator, sort])
+
+  const SortIcon = sort === 'asc' ? FaSortUpIcon : sort === 'desc' ? FaSortDownIcon : FaSortIcon
+
+  return (
+    <StyledTh
+      {...props}
+      aria-sort={sort && ARIA_SORT[sort]}
+      className={wrapperClass}
+      themes={theme}
+    >
+      {sort ? (
+        <>
+          <SortButton
+            type="button"
+            onClick={onSort}
+            themes={theme}
+            className={classNames.sortButton}
+          >
+            {children}
+            <SortIcon alt={sortDirectionText} color={sort === 'none' ? 'TEXT_GREY' : undefined} />
+          </SortButton>
+          {/* 並び替えの状態が変わったことをスクリーンリーダーに通知する */}
+          <VisuallyHiddenText aria-live="polite">
+            {sort === 'none' ? '' : sortDirectionText}
+          </VisuallyHiddenText>
+        </>
+      ) : (
+        children
+      )}
+      {onResize && (
+        <ColumnResizeHandle
+          onResize={onResize}
+          onResizeEnd={onResizeEnd}
+          onResizeCancel={onResizeCancel}
+          label={executeDecorator(RESIZE_HANDLE_LABEL, decorator?.resizeHandleLabel)}
+          className={classNames.resizeHandle}
+        />
+      )}
+    </StyledTh>
+  )
 }
 
 const StyledTh = styled.th<{ themes: Theme; onClick?: () => void }>`
   ${({ themes, onClick }) => {
-    const { fontSize, leading, spacingByChar, color, interaction } = themes
+    const { fontSize, leading, spacingByChar, color, interaction, shadow, zIndex } = themes
 
     return css`
       height: calc(1em * ${leading.NORMAL} + ${spacingByChar(0.5)} * 2);
@@ -50,6 +160,21 @@ const StyledTh = styled.th<{ themes: Theme; onClick?: () => void }>`
         background-color: ${color.hoverColor(color.HEAD)};
       }
 
+      &.sortable,
+      &.resizable {
+        position: relative;
+      }
+
+      &:focus-visible {
+        ${shadow.focusIndicatorStyles}
+      }
+
+      ${fixedCellStyle}
+      &.fixedLeft,
+      &.fixedRight {
+        z-index: ${zIndex.FIXED_MENU};
+      }
+
       ${onClick &&
       css`
         :hover {
@@ -60,3 +185,44 @@ const StyledTh = styled.th<{ themes: Theme; onClick?: () => void }>`
     `
   }}
 `
+
+const SortButton = styled.button<{ themes: Theme }>`
+  ${({ themes }) => {
+    const { spacingByChar, color, shadow } = themes
+
+    return css`
+      appearance: none;
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: ${spacingByChar(0.5)};
+      box-sizing: border-box;
+
+      /* ボタンのクリック可能な領域をセル全体に広げる */
+      width: calc(100% + ${spacingByChar(1)} * 2);
+      margin: calc(${spacingByChar(0.5)} * -1) calc(${spacingByChar(1)} * -1);
+      border: none;
+      padding: ${spacingByChar(0.5)} ${spacingByChar(1)};
+      background-color: transparent;
+      font-family: inherit;
+      font-size: inherit;
+      font-weight: inherit;
+      line-height: inherit;
+      color: inherit;
+      text-align: inherit;
+      cursor: pointer;
+
+      &:hover {
+        background-color: ${color.hoverColor(color.HEAD)};
+      }
+
+      &:focus-visible {
+        ${shadow.focusIndicatorStyles}
+      }
+    `
+  }}
+`
+
+const VisuallyHiddenText = styled.span`
+  ${VISUALLY_HIDDEN_STYLE}
+`
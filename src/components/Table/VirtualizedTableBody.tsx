@@ -0,0 +1,61 @@
+import React, { HTMLAttributes, ReactNode, RefObject, useRef } from 'react'
+import styled from 'styled-components'
+
+import { useVirtualizedTableBodyClassNames } from './useClassNames'
+import { SPACER_ROW_ATTRIBUTE, useVirtualRows } from './useVirtualRows'
+
+type Props<T> = {
+  /** 表示する行のデータ */
+  items: T[]
+  /** 行を描画する関数。1 つのデータにつき 1 つの tr 要素を返す */
+  renderRow: (item: T, index: number) => ReactNode
+  /** 計測前の行の高さ（px）。描画された行の高さは実際に計測した値が使われる */
+  estimatedRowHeight?: number
+  /** 表示領域の外側に余分に描画する行数 */
+  overscan?: number
+  /** スクロールする要素の ref。省略した場合は最も近いスクロール可能な祖先要素を使用する */
+  scrollElementRef?: RefObject<HTMLElement>
+  /** コンポーネントに適用するクラス名 */
+  className?: string
+}
+type ElementProps<T> = Omit<HTMLAttributes<HTMLTableSectionElement>, keyof Props<T> | 'children'>
+
+export function VirtualizedTableBody<T>({
+  items,
+  renderRow,
+  estimatedRowHeight = 44,
+  overscan = 10,
+  scrollElementRef,
+  className = '',
+  ...props
+}: Props<T> & ElementProps<T>) {
+  const bodyRef = useRef<HTMLTableSectionElement>(null)
+  const classNames = useVirtualizedTableBodyClassNames()
+  const { start, end, paddingTop, paddingBottom } = useVirtualRows({
+    items,
+    estimatedRowHeight,
+    overscan,
+    bodyRef,
+    scrollElementRef,
+  })
+
+  return (
+    <tbody {...props} ref={bodyRef} className={`${className} ${classNames.wrapper}`}>
+      {paddingTop > 0 && <SpacerRow height={paddingTop} className={classNames.spacer} />}
+      {items.slice(start, end).map((item, i) => renderRow(item, start + i))}
+      {paddingBottom > 0 && <SpacerRow height={paddingBottom} className={classNames.spacer} />}
+    </tbody>
+  )
+}
+
+const SpacerRow = ({ height, className }: { height: number; className: string }) => (
+  // 描画していない行の高さを確保するための行
+  <tr {...{ [SPACER_ROW_ATTRIBUTE]: '' }} aria-hidden="true" className={className}>
+    <SpacerCell colSpan={1000} style={{ height }} />
+  </tr>
+)
+
+const SpacerCell = styled.td`
+  border: none;
+  padding: 0;
+`
@@ -0,0 +1,238 @@
+import {
+  DataTableColumn,
+  applyColumnLayout,
+  applyColumnVisibility,
+  changeColumnVisibility,
+  compareValues,
+  getDefaultColumnVisibility,
+  getNextSort,
+  getSelectionState,
+  getSortDirection,
+  isColumnVisible,
+  moveColumn,
+  normalizeColumnLayout,
+  resizeColumn,
+  showAllColumns,
+  sortRows,
+  toggleAllSelection,
+  toggleSelection,
+} from './dataTableHelper'
+
+type Row = { id: string; name: string; age: number | null }
+
+const rows: Row[] = [
+  { id: '1', name: 'Sato', age: 30 },
+  { id: '2', name: 'Suzuki', age: null },
+  { id: '3', name: 'Takahashi', age: 25 },
+]
+const columns: Array<DataTableColumn<Row>> = [
+  { key: 'name', header: '氏名', sortable: true },
+  { key: 'age', header: '年齢', sortable: true },
+  { key: 'id', header: 'ID' },
+]
+
+describe('dataTableHelper', () => {
+  describe('compareValues', () => {
+    it('compares numbers numerically', () => {
+      expect(compareValues(2, 10)).toBeLessThan(0)
+    })
+
+    it('places null and undefined at the end', () => {
+      expect(compareValues(null, 1)).toBeGreaterThan(0)
+      expect(compareValues(1, undefined)).toBeLessThan(0)
+    })
+  })
+
+  describe('sortRows', () => {
+    it('returns the rows as is when not sorted', () => {
+      expect(sortRows(rows, columns, null)).toBe(rows)
+    })
+
+    it('sorts rows in ascending and descending order', () => {
+      expect(sortRows(rows, columns, { key: 'age', order: 'asc' }).map(({ id }) => id)).toEqual([
+        '3',
+        '1',
+        '2',
+      ])
+      expect(sortRows(rows, columns, { key: 'name', order: 'desc' }).map(({ id }) => id)).toEqual([
+        '3',
+        '2',
+        '1',
+      ])
+    })
+
+    it('places null and undefined at the end in descending order too', () => {
+      expect(sortRows(rows, columns, { key: 'age', order: 'desc' }).map(({ id }) => id)).toEqual([
+        '1',
+        '3',
+        '2',
+      ])
+    })
+
+    it('does not sort by a column which is not sortable', () => {
+      expect(sortRows(rows, columns, { key: 'id', order: 'desc' })).toBe(rows)
+    })
+
+    it('uses the compare function of the column', () => {
+      const compare = jest.fn((a: Row, b: Row) => a.name.length - b.name.length)
+      const sorted = sortRows(rows, [{ key: 'name', header: '', sortable: true, compare }], {
+        key: 'name',
+        order: 'asc',
+      })
+      expect(compare).toHaveBeenCalled()
+      expect(sorted.map(({ id }) => id)).toEqual(['1', '2', '3'])
+    })
+
+    it('does not mutate the original rows', () => {
+      const original = [...rows]
+      sortRows(rows, columns, { key: 'age', order: 'asc' })
+      expect(rows).toEqual(original)
+    })
+  })
+
+  describe('getNextSort', () => {
+    it('starts with ascending order', () => {
+      expect(getNextSort(null, 'name')).toEqual({ key: 'name', order: 'asc' })
+      expect(getNextSort({ key: 'age', order: 'desc' }, 'name')).toEqual({
+        key: 'name',
+        order: 'asc',
+      })
+    })
+
+    it('toggles the order of the same column', () => {
+      expect(getNextSort({ key: 'name', order: 'asc' }, 'name')).toEqual({
+        key: 'name',
+        order: 'desc',
+      })
+      expect(getNextSort({ key: 'name', order: 'desc' }, 'name')).toEqual({
+        key: 'name',
+        order: 'asc',
+      })
+    })
+  })
+
+  describe('getSortDirection', () => {
+    it('returns the sort direction of the column', () => {
+      expect(getSortDirection(null, 'name')).toBe('none')
+      expect(getSortDirection({ key: 'age', order: 'asc' }, 'name')).toBe('none')
+      expect(getSortDirection({ key: 'name', order: 'asc' }, 'name')).toBe('asc')
+      expect(getSortDirection({ key: 'name', order: 'desc' }, 'name')).toBe('desc')
+    })
+  })
+
+  describe('selection', () => {
+    it('returns the selection state of the rows', () => {
+      expect(getSelectionState(['1', '2'], [])).toEqual({ allSelected: false, someSelected: false })
+      expect(getSelectionState(['1', '2'], ['1'])).toEqual({
+        allSelected: false,
+        someSelected: true,
+      })
+      expect(getSelectionState(['1', '2'], ['1', '2'])).toEqual({
+        allSelected: true,
+        someSelected: false,
+      })
+      expect(getSelectionState([], [])).toEqual({ allSelected: false, someSelected: false })
+    })
+
+    it('selects all rows and keeps the keys of other pages', () => {
+      expect(toggleAllSelection(['1', '2'], ['0', '1'])).toEqual(['0', '1', '2'])
+    })
+
+    it('deselects all rows when all rows are selected', () => {
+      expect(toggleAllSelection(['1', '2'], ['0', '1', '2'])).toEqual(['0'])
+    })
+
+    it('toggles the selection of a row', () => {
+      expect(toggleSelection('1', [])).toEqual(['1'])
+      expect(toggleSelection('1', ['1', '2'])).toEqual(['2'])
+    })
+  })
+
+  describe('column layout', () => {
+    it('returns the default layout when the layout is not given', () => {
+      expect(normalizeColumnLayout(columns, null)).toEqual({
+        order: ['name', 'age', 'id'],
+        widths: {},
+      })
+    })
+
+    it('removes unknown columns and appends new columns', () => {
+      expect(
+        normalizeColumnLayout(columns, {
+          order: ['id', 'deleted', 'name'],
+          widths: { deleted: 100, name: 200 },
+        }),
+      ).toEqual({ order: ['id', 'name', 'age'], widths: { name: 200 } })
+    })
+
+    it('applies the order and widths to the columns', () => {
+      const layouted = applyColumnLayout(columns, {
+        order: ['age', 'name', 'id'],
+        widths: { id: 80 },
+      })
+      expect(layouted.map(({ key }) => key)).toEqual(['age', 'name', 'id'])
+      expect(layouted[2].width).toBe(80)
+      expect(layouted[0]).toBe(columns[1])
+    })
+
+    it('moves a column to the position of another column', () => {
+      const layout = { order: ['a', 'b', 'c', 'd'], widths: {} }
+      expect(moveColumn(layout, 'a', 'c').order).toEqual(['b', 'c', 'a', 'd'])
+      expect(moveColumn(layout, 'd', 'b').order).toEqual(['a', 'd', 'b', 'c'])
+      expect(moveColumn(layout, 'a', 'unknown')).toBe(layout)
+    })
+
+    it('resizes a column', () => {
+      expect(resizeColumn({ order: ['a'], widths: { b: 100 } }, 'a', 120.4)).toEqual({
+        order: ['a'],
+        widths: { a: 120, b: 100 },
+      })
+    })
+  })
+
+  describe('column visibility', () => {
+    const visibilityColumns: Array<DataTableColumn<Row>> = [
+      { key: 'name', header: '氏名', required: true },
+      { key: 'age', header: '年齢', defaultHidden: true },
+      { key: 'id', header: 'ID' },
+    ]
+
+    it('returns the default visibility', () => {
+      expect(getDefaultColumnVisibility(visibilityColumns)).toEqual({
+        name: true,
+        age: false,
+        id: true,
+      })
+    })
+
+    it('uses the default visibility for the columns not in the visibility map', () => {
+      expect(isColumnVisible(visibilityColumns[1], null)).toBe(false)
+      expect(isColumnVisible(visibilityColumns[1], { age: true })).toBe(true)
+      expect(isColumnVisible(visibilityColumns[2], {})).toBe(true)
+    })
+
+    it('always shows the required columns', () => {
+      expect(isColumnVisible(visibilityColumns[0], { name: false })).toBe(true)
+      expect(changeColumnVisibility(visibilityColumns, null, 'name', false)).toEqual({
+        name: true,
+        age: false,
+        id: true,
+      })
+    })
+
+    it('changes the visibility of the column', () => {
+      expect(changeColumnVisibility(visibilityColumns, null, 'id', false)).toEqual({
+        name: true,
+        age: false,
+        id: false,
+      })
+      expect(
+        applyColumnVisibility(visibilityColumns, { age: true, id: false }).map(({ key }) => key),
+      ).toEqual(['name', 'age'])
+    })
+
+    it('shows all columns', () => {
+      expect(showAllColumns(visibilityColumns)).toEqual({ name: true, age: true, id: true })
+    })
+  })
+})
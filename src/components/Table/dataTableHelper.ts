@@ -0,0 +1,239 @@
+import { ReactNode } from 'react'
+
+import type { EditorProps } from './EditableTd'
+
+export type SortOrder = 'asc' | 'desc'
+
+export type SortState = {
+  /** 並び替えの対象となる列の key */
+  key: string
+  /** 並び替えの方向 */
+  order: SortOrder
+}
+
+export type ColumnLayout = {
+  /** 列の key の表示順 */
+  order: string[]
+  /** 列の key ごとの幅（px） */
+  widths: Record<string, number>
+}
+
+export type ColumnVisibility = Record<string, boolean>
+
+type ColumnBase<T> = {
+  /** ヘッダーセルの内容 */
+  header: ReactNode
+  /** セルの内容を返す関数 */
+  cell?: (row: T, rowIndex: number) => ReactNode
+  /** `true` のとき、ヘッダーセルから並び替えができるようになる */
+  sortable?: boolean
+  /** 並び替えに使う比較関数。省略した場合は `row[key]` の値で比較する */
+  compare?: (a: T, b: T) => number
+  /** 列の幅 */
+  width?: string | number
+  /** セル内のテキストの配置 */
+  align?: 'left' | 'center' | 'right'
+  /** 横スクロール時に列を左端または右端に固定表示する */
+  fixed?: 'left' | 'right'
+  /** `true` のとき、列を非表示にできない */
+  required?: boolean
+  /** `true` のとき、`columnVisibility` で指定されていなければ列を非表示にする */
+  defaultHidden?: boolean
+  /** `false` のとき、CSV・TSV の出力に含めない。操作ボタンの列などで使用する */
+  exportable?: boolean
+  /** CSV・TSV の出力で使う見出し。省略した場合は `header` が文字列であればその値、そうでなければ `key` を使う */
+  exportHeader?: string
+  /** CSV・TSV の出力で使う値を返す関数。省略した場合は `row[key]` の値を使う */
+  exportValue?: (row: T) => unknown
+}
+
+// 行のプロパティに対応する列。編集中の値は `row[key]` の型になる
+type FieldColumn<T, K extends keyof T> = ColumnBase<T> & {
+  /** 列を一意に識別するキー。`cell` を省略した場合は `row[key]` が表示される */
+  key: K
+  /** 編集中に表示する入力要素を返す関数。指定した場合、DataTable の `onCellCommit` と合わせてセルを直接編集できるようになる */
+  editor?: (props: EditorProps<T[K]> & { row: T }) => ReactNode
+  /** 編集中の値を検証する関数。エラーメッセージを返した場合は確定できない */
+  validate?: (value: T[K], row: T) => string | null | undefined
+}
+
+// 操作ボタンの列など、行のプロパティに対応しない列。編集はできない
+type CustomColumn<T> = ColumnBase<T> & {
+  /** 列を一意に識別するキー */
+  key: string
+  editor?: undefined
+  validate?: undefined
+}
+
+type FieldKey<T> = Extract<keyof T, string>
+
+export type DataTableColumn<T> =
+  | { [K in FieldKey<T>]: FieldColumn<T, K> }[FieldKey<T>]
+  | CustomColumn<T>
+
+export function getCellValue<T>(row: T, key: string): unknown {
+  return (row as Record<string, unknown>)[key]
+}
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined
+
+export function compareValues(a: unknown, b: unknown) {
+  // null, undefined は常に末尾に寄せる
+  if (a === b) return 0
+  if (isEmptyValue(a)) return 1
+  if (isEmptyValue(b)) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime()
+  return String(a).localeCompare(String(b), 'ja')
+}
+
+export function sortRows<T>(rows: T[], columns: Array<DataTableColumn<T>>, sort: SortState | null) {
+  if (sort === null) {
+    return rows
+  }
+  const column = columns.find(({ key }) => key === sort.key)
+  if (!column || !column.sortable) {
+    return rows
+  }
+  const direction = sort.order === 'asc' ? 1 : -1
+  const { compare, key } = column
+  const compareRows = compare
+    ? (a: T, b: T) => compare(a, b) * direction
+    : (a: T, b: T) => {
+        const valueA = getCellValue(a, key)
+        const valueB = getCellValue(b, key)
+        // null, undefined は並び順によらず末尾に寄せるため、direction を掛けない
+        if (isEmptyValue(valueA) || isEmptyValue(valueB)) {
+          return compareValues(valueA, valueB)
+        }
+        return compareValues(valueA, valueB) * direction
+      }
+
+  // Array.prototype.sort は元の配列を変更するため複製してから並び替える
+  return [...rows].sort(compareRows)
+}
+
+export function getNextSort(current: SortState | null, key: string): SortState {
+  if (current === null || current.key !== key) {
+    return { key, order: 'asc' }
+  }
+  return { key, order: current.order === 'asc' ? 'desc' : 'asc' }
+}
+
+export function getSortDirection(sort: SortState | null, key: string): SortOrder | 'none' {
+  if (sort === null || sort.key !== key) {
+    return 'none'
+  }
+  return sort.order
+}
+
+export function getSelectionState(rowKeys: string[], selectedKeys: string[]) {
+  const selectedCount = rowKeys.filter((key) => selectedKeys.includes(key)).length
+  return {
+    allSelected: rowKeys.length > 0 && selectedCount === rowKeys.length,
+    someSelected: selectedCount > 0 && selectedCount < rowKeys.length,
+  }
+}
+
+export function toggleAllSelection(rowKeys: string[], selectedKeys: string[]) {
+  const { allSelected } = getSelectionState(rowKeys, selectedKeys)
+  if (allSelected) {
+    return selectedKeys.filter((key) => !rowKeys.includes(key))
+  }
+  return [...selectedKeys, ...rowKeys.filter((key) => !selectedKeys.includes(key))]
+}
+
+export function toggleSelection(key: string, selectedKeys: string[]) {
+  if (selectedKeys.includes(key)) {
+    return selectedKeys.filter((selectedKey) => selectedKey !== key)
+  }
+  return [...selectedKeys, key]
+}
+
+export function normalizeColumnLayout<T>(
+  columns: Array<DataTableColumn<T>>,
+  layout: ColumnLayout | null,
+): ColumnLayout {
+  const keys = columns.map(({ key }) => key)
+  if (layout === null) {
+    return { order: keys, widths: {} }
+  }
+  // 保存されたレイアウトに含まれない列は末尾に追加し、存在しない列は取り除く
+  const order = [
+    ...layout.order.filter((key) => keys.includes(key)),
+    ...keys.filter((key) => !layout.order.includes(key)),
+  ]
+  const widths = Object.fromEntries(
+    Object.entries(layout.widths).filter(([key]) => keys.includes(key)),
+  )
+  return { order, widths }
+}
+
+export function applyColumnLayout<T>(
+  columns: Array<DataTableColumn<T>>,
+  layout: ColumnLayout | null,
+): Array<DataTableColumn<T>> {
+  const { order, widths } = normalizeColumnLayout(columns, layout)
+  return order.map((key) => {
+    const column = columns.find((c) => c.key === key) as DataTableColumn<T>
+    return widths[key] === undefined ? column : { ...column, width: widths[key] }
+  })
+}
+
+export function moveColumn(layout: ColumnLayout, fromKey: string, toKey: string): ColumnLayout {
+  const fromIndex = layout.order.indexOf(fromKey)
+  const toIndex = layout.order.indexOf(toKey)
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) {
+    return layout
+  }
+  const order = layout.order.filter((key) => key !== fromKey)
+  order.splice(toIndex, 0, fromKey)
+  return { ...layout, order }
+}
+
+export function resizeColumn(layout: ColumnLayout, key: string, width: number): ColumnLayout {
+  return { ...layout, widths: { ...layout.widths, [key]: Math.round(width) } }
+}
+
+export function getDefaultColumnVisibility<T>(columns: Array<DataTableColumn<T>>) {
+  return Object.fromEntries(
+    columns.map(({ key, required, defaultHidden }) => [key, !!required || !defaultHidden]),
+  ) as ColumnVisibility
+}
+
+export function isColumnVisible<T>(
+  { key, required, defaultHidden }: DataTableColumn<T>,
+  visibility: ColumnVisibility | null,
+) {
+  if (required) {
+    return true
+  }
+  const visible = visibility?.[key]
+  return visible === undefined ? !defaultHidden : visible
+}
+
+export function applyColumnVisibility<T>(
+  columns: Array<DataTableColumn<T>>,
+  visibility: ColumnVisibility | null,
+) {
+  return columns.filter((column) => isColumnVisible(column, visibility))
+}
+
+export function changeColumnVisibility<T>(
+  columns: Array<DataTableColumn<T>>,
+  visibility: ColumnVisibility | null,
+  key: string,
+  visible: boolean,
+): ColumnVisibility {
+  // 必須の列は常に表示し、指定されていない列はデフォルトの表示状態で補う
+  return Object.fromEntries(
+    columns.map((column) => [
+      column.key,
+      column.key === key && !column.required ? visible : isColumnVisible(column, visibility),
+    ]),
+  )
+}
+
+export function showAllColumns<T>(columns: Array<DataTableColumn<T>>): ColumnVisibility {
+  return Object.fromEntries(columns.map(({ key }) => [key, true]))
+}
@@ -0,0 +1,62 @@
+import { css } from 'styled-components'
+
+const FIXED_CLASS_NAME = {
+  left: 'fixedLeft',
+  right: 'fixedRight',
+} as const
+
+export function getFixedClassName(fixed: 'left' | 'right') {
+  return FIXED_CLASS_NAME[fixed]
+}
+
+export const fixedCellStyle = css`
+  &.${FIXED_CLASS_NAME.left} {
+    position: sticky;
+    left: 0;
+  }
+  &.${FIXED_CLASS_NAME.right} {
+    position: sticky;
+    right: 0;
+  }
+`
+
+/**
+ * 行内で固定表示するセルが複数ある場合に、各セルの left / right の値を手前のセルの幅の合計に設定する
+ * 戻り値は左右それぞれの固定表示しているセルの幅の合計
+ */
+export function updateRowFixedCellOffsets(row: HTMLTableRowElement) {
+  const cells = Array.from(row.cells)
+
+  let left = 0
+  cells
+    .filter((cell) => cell.classList.contains(FIXED_CLASS_NAME.left))
+    .forEach((cell) => {
+      cell.style.left = `${left}px`
+      left += cell.getBoundingClientRect().width
+    })
+
+  let right = 0
+  cells
+    .filter((cell) => cell.classList.contains(FIXED_CLASS_NAME.right))
+    .reverse()
+    .forEach((cell) => {
+      cell.style.right = `${right}px`
+      right += cell.getBoundingClientRect().width
+    })
+
+  return { leftWidth: left, rightWidth: right }
+}
+
+/** テーブルの全ての行について updateRowFixedCellOffsets を行う */
+export function updateFixedCellOffsets(table: HTMLTableElement) {
+  let leftWidth = 0
+  let rightWidth = 0
+
+  Array.from(table.rows).forEach((row) => {
+    const widths = updateRowFixedCellOffsets(row)
+    leftWidth = Math.max(leftWidth, widths.leftWidth)
+    rightWidth = Math.max(rightWidth, widths.rightWidth)
+  })
+
+  return { leftWidth, rightWidth }
+}
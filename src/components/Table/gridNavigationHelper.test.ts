@@ -0,0 +1,73 @@
+import { getNextCellPosition } from './gridNavigationHelper'
+
+describe('gridNavigationHelper', () => {
+  describe('getNextCellPosition', () => {
+    const rowLengths = Array.from({ length: 30 }, () => 4)
+
+    it('moves to the adjacent cell with arrow keys', () => {
+      const current = { row: 5, column: 1 }
+      expect(getNextCellPosition('ArrowRight', false, current, rowLengths)).toEqual({
+        row: 5,
+        column: 2,
+      })
+      expect(getNextCellPosition('ArrowLeft', false, current, rowLengths)).toEqual({
+        row: 5,
+        column: 0,
+      })
+      expect(getNextCellPosition('ArrowDown', false, current, rowLengths)).toEqual({
+        row: 6,
+        column: 1,
+      })
+      expect(getNextCellPosition('ArrowUp', false, current, rowLengths)).toEqual({
+        row: 4,
+        column: 1,
+      })
+    })
+
+    it('stays inside the grid at the edges', () => {
+      expect(getNextCellPosition('ArrowLeft', false, { row: 0, column: 0 }, rowLengths)).toEqual({
+        row: 0,
+        column: 0,
+      })
+      expect(getNextCellPosition('ArrowDown', false, { row: 29, column: 3 }, rowLengths)).toEqual({
+        row: 29,
+        column: 3,
+      })
+    })
+
+    it('moves to the first or last cell of the row with Home / End', () => {
+      const current = { row: 5, column: 1 }
+      expect(getNextCellPosition('Home', false, current, rowLengths)).toEqual({ row: 5, column: 0 })
+      expect(getNextCellPosition('End', false, current, rowLengths)).toEqual({ row: 5, column: 3 })
+    })
+
+    it('moves to the first or last cell of the grid with Ctrl + Home / End', () => {
+      const current = { row: 5, column: 1 }
+      expect(getNextCellPosition('Home', true, current, rowLengths)).toEqual({ row: 0, column: 0 })
+      expect(getNextCellPosition('End', true, current, rowLengths)).toEqual({ row: 29, column: 3 })
+    })
+
+    it('moves by 10 rows with PageUp / PageDown', () => {
+      expect(getNextCellPosition('PageDown', false, { row: 5, column: 1 }, rowLengths)).toEqual({
+        row: 15,
+        column: 1,
+      })
+      expect(getNextCellPosition('PageUp', false, { row: 5, column: 1 }, rowLengths)).toEqual({
+        row: 0,
+        column: 1,
+      })
+    })
+
+    it('clamps the column to the length of the destination row', () => {
+      expect(getNextCellPosition('ArrowDown', false, { row: 0, column: 3 }, [4, 1])).toEqual({
+        row: 1,
+        column: 0,
+      })
+    })
+
+    it('returns null for other keys', () => {
+      expect(getNextCellPosition('a', false, { row: 0, column: 0 }, rowLengths)).toBeNull()
+      expect(getNextCellPosition('ArrowDown', false, { row: 0, column: 0 }, [])).toBeNull()
+    })
+  })
+})
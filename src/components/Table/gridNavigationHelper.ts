@@ -0,0 +1,59 @@
+export type CellPosition = {
+  row: number
+  column: number
+}
+
+const PAGE_SIZE = 10
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+/**
+ * キー操作に応じて、次にフォーカスするセルの位置を返す
+ * 移動しないキーの場合は null を返す
+ * @param rowLengths 各行のセルの数
+ */
+export function getNextCellPosition(
+  key: string,
+  ctrlKey: boolean,
+  current: CellPosition,
+  rowLengths: number[],
+): CellPosition | null {
+  const lastRow = rowLengths.length - 1
+  if (lastRow < 0) {
+    return null
+  }
+  const moveToRow = (row: number) => {
+    const nextRow = clamp(row, 0, lastRow)
+    return { row: nextRow, column: clamp(current.column, 0, rowLengths[nextRow] - 1) }
+  }
+
+  switch (key) {
+    case 'Right':
+    case 'ArrowRight':
+      return {
+        row: current.row,
+        column: clamp(current.column + 1, 0, rowLengths[current.row] - 1),
+      }
+    case 'Left':
+    case 'ArrowLeft':
+      return { row: current.row, column: clamp(current.column - 1, 0, rowLengths[current.row] - 1) }
+    case 'Down':
+    case 'ArrowDown':
+      return moveToRow(current.row + 1)
+    case 'Up':
+    case 'ArrowUp':
+      return moveToRow(current.row - 1)
+    case 'PageDown':
+      return moveToRow(current.row + PAGE_SIZE)
+    case 'PageUp':
+      return moveToRow(current.row - PAGE_SIZE)
+    case 'Home':
+      return ctrlKey ? { row: 0, column: 0 } : { row: current.row, column: 0 }
+    case 'End':
+      return ctrlKey
+        ? { row: lastRow, column: rowLengths[lastRow] - 1 }
+        : { row: current.row, column: rowLengths[current.row] - 1 }
+    default:
+      return null
+  }
+}
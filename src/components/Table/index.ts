@@ -5,5 +5,17 @@ export { Row } from './Row'
 export { Cell } from './Cell'
 export { Th } from './Th'
 export { Td } from './Td'
+export { EditableTd } from './EditableTd'
+export type { EditorProps } from './EditableTd'
 export { BulkActionRow } from './BulkActionRow'
 export { EmptyTableBody } from './EmptyTableBody'
+export { ExpandableRow } from './ExpandableRow'
+export { GroupHeaderRow } from './GroupHeaderRow'
+export { TableScroller } from './TableScroller'
+export { DataTable } from './DataTable'
+export { VirtualizedTableBody } from './VirtualizedTableBody'
+export { TableExportButton } from './TableExportButton'
+export { ColumnVisibilityPicker } from './ColumnVisibilityPicker'
+export { serializeTable, encodeExportText } from './tableExportHelper'
+export type { ExportEncoding, ExportFormat } from './tableExportHelper'
+export type { ColumnLayout, ColumnVisibility, DataTableColumn, SortState } from './dataTableHelper'
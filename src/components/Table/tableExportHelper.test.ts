@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react'
+
+import { DataTableColumn } from './dataTableHelper'
+import {
+  encodeExportText,
+  formatExportValue,
+  getExportFileName,
+  getExportMimeType,
+  quoteExportField,
+  serializeTable,
+} from './tableExportHelper'
+
+type Employee = { id: number; name: string; note: string | null; joinedAt: Date }
+
+const columns: Array<DataTableColumn<Employee>> = [
+  { key: 'id', header: '社員番号', sortable: true },
+  { key: 'name', header: '氏名' },
+  { key: 'note', header: '備考' },
+  { key: 'joinedAt', header: '入社日' },
+  { key: 'actions', header: '操作', exportable: false },
+]
+const rows: Employee[] = [
+  { id: 2, name: '鈴木 花子', note: '週3日, 在宅', joinedAt: new Date(2021, 3, 1) },
+  { id: 1, name: '山田 太郎', note: '1行目\n2行目', joinedAt: new Date(2020, 9, 15) },
+  { id: 3, name: '佐藤 "ジロー" 次郎', note: null, joinedAt: new Date(2022, 0, 10) },
+]
+
+describe('tableExportHelper', () => {
+  describe('formatExportValue', () => {
+    it('converts values into strings', () => {
+      expect(formatExportValue(null)).toBe('')
+      expect(formatExportValue(undefined)).toBe('')
+      expect(formatExportValue(100)).toBe('100')
+      expect(formatExportValue(new Date(2024, 4, 1))).toBe('2024/05/01')
+    })
+
+    it('keeps the time of dates', () => {
+      expect(formatExportValue(new Date(2024, 4, 1, 9, 5, 30))).toBe('2024/05/01 09:05:30')
+      expect(formatExportValue(new Date(2024, 4, 1, 0, 0, 1))).toBe('2024/05/01 00:00:01')
+    })
+
+    it('escapes strings that would be interpreted as formulas', () => {
+      expect(formatExportValue('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)")
+      expect(formatExportValue('-2+3+cmd|"/C calc"!A0')).toBe(`'-2+3+cmd|"/C calc"!A0`)
+      expect(formatExportValue('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)")
+      expect(formatExportValue('\t=1+1')).toBe("'\t=1+1")
+      expect(formatExportValue('\r=1+1')).toBe("'\r=1+1")
+      expect(formatExportValue('a=b')).toBe('a=b')
+    })
+
+    it('does not escape plain numbers', () => {
+      expect(formatExportValue(-1)).toBe('-1')
+      expect(formatExportValue('-1')).toBe('-1')
+      expect(formatExportValue('+81')).toBe('+81')
+      expect(formatExportValue('-1,000.5')).toBe('-1,000.5')
+      expect(formatExportValue('-.5')).toBe('-.5')
+    })
+  })
+
+  describe('quoteExportField', () => {
+    it('quotes fields that contain delimiters, quotes or line breaks', () => {
+      expect(quoteExportField('a,b', 'csv')).toBe('"a,b"')
+      expect(quoteExportField('a,b', 'tsv')).toBe('a,b')
+      expect(quoteExportField('a\tb', 'tsv')).toBe('"a\tb"')
+      expect(quoteExportField('a\nb', 'csv')).toBe('"a\nb"')
+      expect(quoteExportField('a"b', 'csv')).toBe('"a""b"')
+      expect(quoteExportField('ab', 'csv')).toBe('ab')
+    })
+  })
+
+  describe('serializeTable', () => {
+    it('serializes rows into CSV', () => {
+      expect(serializeTable(columns, rows)).toBe(
+        [
+          '社員番号,氏名,備考,入社日',
+          '2,鈴木 花子,"週3日, 在宅",2021/04/01',
+          '1,山田 太郎,"1行目\n2行目",2020/10/15',
+          '3,"佐藤 ""ジロー"" 次郎",,2022/01/10',
+          '',
+        ].join('\r\n'),
+      )
+    })
+
+    it('serializes rows into TSV', () => {
+      expect(serializeTable(columns, rows.slice(0, 1), { format: 'tsv' })).toBe(
+        '社員番号\t氏名\t備考\t入社日\r\n2\t鈴木 花子\t週3日, 在宅\t2021/04/01\r\n',
+      )
+    })
+
+    it('follows the sort and the column layout', () => {
+      expect(
+        serializeTable(columns, rows, {
+          sort: { key: 'id', order: 'asc' },
+          columnLayout: { order: ['name', 'id'], widths: {} },
+        })
+          .split('\r\n')
+          .map((line) => line.split(',').slice(0, 2).join(',')),
+      ).toEqual(['氏名,社員番号', '山田 太郎,1', '鈴木 花子,2', '"佐藤 ""ジロー"" 次郎",3', ''])
+    })
+
+    it('uses exportHeader and exportValue', () => {
+      expect(
+        serializeTable(
+          [
+            {
+              key: 'name',
+              header: createElement('span', null, '氏名'),
+              exportHeader: '名前',
+              exportValue: ({ name }: Employee) => name.replace(' ', ''),
+            },
+            { key: 'id', header: createElement('span', null, 'ID') },
+          ],
+          rows.slice(0, 1),
+        ),
+      ).toBe('名前,id\r\n鈴木花子,2\r\n')
+    })
+  })
+
+  describe('encodeExportText', () => {
+    it('adds BOM to UTF-8', () => {
+      expect(Array.from(encodeExportText('a', 'utf-8'))).toEqual([0xef, 0xbb, 0xbf, 0x61])
+    })
+
+    it('encodes text into Shift_JIS', () => {
+      expect(Array.from(encodeExportText('aあア①髙ｱ', 'shift_jis'))).toEqual([
+        0x61, 0x82, 0xa0, 0x83, 0x41, 0x87, 0x40, 0xfb, 0xfc, 0xb1,
+      ])
+      expect(
+        new TextDecoder('shift_jis').decode(encodeExportText('社員番号,氏名\r\n', 'shift_jis')),
+      ).toBe('社員番号,氏名\r\n')
+    })
+
+    it('replaces characters that Shift_JIS cannot represent', () => {
+      expect(Array.from(encodeExportText('😀', 'shift_jis'))).toEqual([0x3f])
+    })
+  })
+
+  it('returns the file name and the MIME type', () => {
+    expect(getExportFileName('社員一覧', 'csv')).toBe('社員一覧.csv')
+    expect(getExportFileName('社員一覧.tsv', 'tsv')).toBe('社員一覧.tsv')
+    expect(getExportMimeType('csv', 'shift_jis')).toBe('text/csv;charset=Shift_JIS')
+    expect(getExportMimeType('tsv', 'utf-8')).toBe('text/tab-separated-values;charset=utf-8')
+  })
+})
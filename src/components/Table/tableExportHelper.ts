@@ -0,0 +1,124 @@
+import dayjs from 'dayjs'
+
+import { encodeShiftJis } from '../../libs/shiftJis'
+
+import {
+  ColumnLayout,
+  ColumnVisibility,
+  DataTableColumn,
+  SortState,
+  applyColumnLayout,
+  applyColumnVisibility,
+  getCellValue,
+  sortRows,
+} from './dataTableHelper'
+
+export type ExportFormat = 'csv' | 'tsv'
+export type ExportEncoding = 'utf-8' | 'shift_jis'
+
+export type ExportOptions = {
+  /** 出力形式 */
+  format?: ExportFormat
+  /** 並び替えの状態。指定した場合は並び替えた順に出力する */
+  sort?: SortState | null
+  /** 列の表示順。指定した場合は表示順に列を出力する */
+  columnLayout?: ColumnLayout | null
+  /** 列の表示状態。指定した場合は表示されている列だけを出力する */
+  columnVisibility?: ColumnVisibility | null
+}
+
+const DELIMITERS: Record<ExportFormat, string> = {
+  csv: ',',
+  tsv: '\t',
+}
+// Excel で開くことを想定して、改行コードは CRLF にする
+const LINE_BREAK = '\r\n'
+const UTF8_BOM = '\uFEFF'
+// 表計算ソフトで数式として解釈される先頭の文字
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+// 符号付きの数値は数式として実行されないため、文字列の値でもそのまま出力する
+const PLAIN_NUMBER = /^[+-]?(\d[\d,]*)?(\.\d+)?$/
+
+export function formatExportValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (value instanceof Date) {
+    const date = dayjs(value)
+    // 時刻を持たない日付は日付だけを出力する
+    return date.isSame(date.startOf('day'))
+      ? date.format('YYYY/MM/DD')
+      : date.format('YYYY/MM/DD HH:mm:ss')
+  }
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value)) {
+    // 数式として実行されないよう、先頭に ' を付けて文字列として扱わせる
+    return `'${value}`
+  }
+  return String(value)
+}
+
+export function quoteExportField(field: string, format: ExportFormat) {
+  const delimiter = DELIMITERS[format]
+  if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`
+  }
+  return field
+}
+
+const getExportHeader = <T>({ key, header, exportHeader }: DataTableColumn<T>) => {
+  if (exportHeader !== undefined) {
+    return exportHeader
+  }
+  return typeof header === 'string' || typeof header === 'number' ? String(header) : key
+}
+
+/**
+ * 列の定義に従って、行のデータを CSV または TSV の文字列に変換する
+ */
+export function serializeTable<T>(
+  columns: Array<DataTableColumn<T>>,
+  rows: T[],
+  { format = 'csv', sort = null, columnLayout = null, columnVisibility = null }: ExportOptions = {},
+) {
+  const exportColumns = applyColumnVisibility(
+    applyColumnLayout(columns, columnLayout),
+    columnVisibility,
+  ).filter(({ exportable = true }) => exportable)
+  const toLine = (fields: string[]) =>
+    fields.map((field) => quoteExportField(field, format)).join(DELIMITERS[format])
+
+  const lines = [
+    toLine(exportColumns.map(getExportHeader)),
+    ...sortRows(rows, columns, sort).map((row) =>
+      toLine(
+        exportColumns.map((column) =>
+          formatExportValue(
+            column.exportValue ? column.exportValue(row) : getCellValue(row, column.key),
+          ),
+        ),
+      ),
+    ),
+  ]
+  return lines.join(LINE_BREAK) + LINE_BREAK
+}
+
+/**
+ * 文字列をファイルに書き出すバイト列に変換する
+ * UTF-8 の場合は Excel で文字化けしないよう BOM を付ける
+ */
+export function encodeExportText(text: string, encoding: ExportEncoding) {
+  if (encoding === 'shift_jis') {
+    return encodeShiftJis(text)
+  }
+  return new TextEncoder().encode(UTF8_BOM + text)
+}
+
+export function getExportMimeType(format: ExportFormat, encoding: ExportEncoding) {
+  const type = format === 'csv' ? 'text/csv' : 'text/tab-separated-values'
+  return `${type};charset=${encoding === 'shift_jis' ? 'Shift_JIS' : 'utf-8'}`
+}
+
+export function getExportFileName(filename: string, format: ExportFormat) {
+  const extension = `.${format}`
+  return filename.toLowerCase().endsWith(extension) ? filename : `${filename}${extension}`
+}
@@ -1,8 +1,25 @@
-import { useMemo } from 'react'
+import { VFC, useMemo } from 'react'
 
 import { useClassNameGenerator } from '../../hooks/useClassNameGenerator'
 
-import { Body, BulkActionRow, Cell, Head, Row, Table, Td, Th } from '.'
+import {
+  Body,
+  BulkActionRow,
+  Cell,
+  ColumnVisibilityPicker,
+  DataTable,
+  EditableTd,
+  ExpandableRow,
+  GroupHeaderRow,
+  Head,
+  Row,
+  Table,
+  TableExportButton,
+  TableScroller,
+  Td,
+  Th,
+  VirtualizedTableBody,
+} from '.'
 
 export function useClassNames() {
   const generateForTable = useClassNameGenerator(Table.displayName || 'Table')
@@ -38,6 +55,8 @@ export function useThClassNames() {
   return useMemo(
     () => ({
       wrapper: generate(),
+      sortButton: generate('sortButton'),
+      resizeHandle: generate('resizeHandle'),
     }),
     [generate],
   )
@@ -62,3 +81,105 @@ export function useBulkActionRowClassNames() {
     [generate],
   )
 }
+
+export function useDataTableClassNames() {
+  const generate = useClassNameGenerator((DataTable as VFC).displayName || 'DataTable')
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      row: generate('row'),
+      selectAllCheckBox: generate('selectAllCheckBox'),
+      selectRowCheckBox: generate('selectRowCheckBox'),
+    }),
+    [generate],
+  )
+}
+
+export function useVirtualizedTableBodyClassNames() {
+  const generate = useClassNameGenerator(
+    (VirtualizedTableBody as VFC).displayName || 'VirtualizedTableBody',
+  )
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      spacer: generate('spacer'),
+    }),
+    [generate],
+  )
+}
+
+export function useTableScrollerClassNames() {
+  const generate = useClassNameGenerator(TableScroller.displayName || 'TableScroller')
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      scroller: generate('scroller'),
+      shadow: generate('shadow'),
+    }),
+    [generate],
+  )
+}
+
+export function useExpandableRowClassNames() {
+  const generate = useClassNameGenerator(ExpandableRow.displayName || 'ExpandableRow')
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      toggleCell: generate('toggleCell'),
+      toggleButton: generate('toggleButton'),
+      details: generate('details'),
+    }),
+    [generate],
+  )
+}
+
+export function useGroupHeaderRowClassNames() {
+  const generate = useClassNameGenerator(GroupHeaderRow.displayName || 'GroupHeaderRow')
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      toggleButton: generate('toggleButton'),
+    }),
+    [generate],
+  )
+}
+
+export function useEditableTdClassNames() {
+  const generate = useClassNameGenerator((EditableTd as VFC).displayName || 'EditableTd')
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      viewButton: generate('viewButton'),
+      errorMessage: generate('errorMessage'),
+    }),
+    [generate],
+  )
+}
+
+export function useTableExportButtonClassNames() {
+  const generate = useClassNameGenerator(
+    (TableExportButton as VFC).displayName || 'TableExportButton',
+  )
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+    }),
+    [generate],
+  )
+}
+
+export function useColumnVisibilityPickerClassNames() {
+  const generate = useClassNameGenerator(
+    (ColumnVisibilityPicker as VFC).displayName || 'ColumnVisibilityPicker',
+  )
+  return useMemo(
+    () => ({
+      wrapper: generate(),
+      trigger: generate('trigger'),
+      list: generate('list'),
+      showAllButton: generate('showAllButton'),
+      resetButton: generate('resetButton'),
+    }),
+    [generate],
+  )
+}
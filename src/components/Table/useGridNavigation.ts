@@ -0,0 +1,231 @@
+import { KeyboardEvent, RefObject, useCallback, useEffect, useRef } from 'react'
+
+import { tabbable } from '../../libs/tabbable'
+
+import { CellPosition, getNextCellPosition } from './gridNavigationHelper'
+import { SPACER_ROW_ATTRIBUTE } from './useVirtualRows'
+
+// tabindex を設定した要素の目印。無効にした時に、この目印のある要素だけ tabindex を取り除く
+const MANAGED_TABINDEX_ATTRIBUTE = 'data-grid-navigation-tabindex'
+
+const isNavigableRow = (row: Element | null): row is HTMLTableRowElement =>
+  row instanceof HTMLTableRowElement && !row.hasAttribute(SPACER_ROW_ATTRIBUTE)
+
+const getCells = (table: HTMLTableElement) =>
+  Array.from(table.rows)
+    .filter((row) => isNavigableRow(row) && row.cells.length > 0)
+    .map((row) => Array.from(row.cells))
+
+const getInnerFocusables = (element: HTMLElement) =>
+  tabbable(element, { shouldIgnoreVisibility: true, shouldIncludeNegativeTabIndex: true })
+
+const getVisibleInnerFocusables = (cell: HTMLTableCellElement) =>
+  tabbable(cell, { shouldIncludeNegativeTabIndex: true })
+
+// セル内に操作できる要素が 1 つだけある場合はその要素に、ない場合や複数ある場合はセル自体にフォーカスする
+// 複数ある場合は Enter / F2 キーでセル内の要素に移動する
+const getFocusTarget = (cell: HTMLTableCellElement): HTMLElement => {
+  const focusables = getVisibleInnerFocusables(cell)
+  return focusables.length === 1 ? focusables[0] : cell
+}
+
+const findPosition = (cells: HTMLTableCellElement[][], target: Node): CellPosition | null => {
+  for (let row = 0; row < cells.length; row++) {
+    const column = cells[row].findIndex((cell) => cell.contains(target))
+    if (column >= 0) {
+      return { row, column }
+    }
+  }
+  return null
+}
+
+// 利用者が tabindex を指定した要素は変更しない
+const setManagedTabIndex = (element: HTMLElement, tabIndex: number) => {
+  if (element.hasAttribute('tabindex') && !element.hasAttribute(MANAGED_TABINDEX_ATTRIBUTE)) {
+    return
+  }
+  element.setAttribute(MANAGED_TABINDEX_ATTRIBUTE, '')
+  element.tabIndex = tabIndex
+}
+
+// root 以下のセルとセル内の操作できる要素を、Tab キーでフォーカスできないようにする
+const removeFromTabOrder = (root: HTMLElement) => {
+  const elements = [
+    root,
+    ...Array.from(root.querySelectorAll<HTMLElement>('td, th')),
+    ...getInnerFocusables(root),
+  ]
+  elements.forEach((element) => {
+    const isTarget =
+      element instanceof HTMLTableCellElement
+        ? isNavigableRow(element.parentElement)
+        : element.tabIndex >= 0
+    if (isTarget) {
+      setManagedTabIndex(element, -1)
+    }
+  })
+}
+
+// 設定した tabindex を取り除く。指定のある要素は変更していないため、取り除くと元の状態に戻る
+const restoreTabOrder = (table: HTMLTableElement) => {
+  table.querySelectorAll(`[${MANAGED_TABINDEX_ATTRIBUTE}]`).forEach((element) => {
+    element.removeAttribute('tabindex')
+    element.removeAttribute(MANAGED_TABINDEX_ATTRIBUTE)
+  })
+}
+
+// 矢印キーで入力内容を操作する要素では、セル間の移動を行わない
+const isTextEntry = (element: HTMLElement) =>
+  element instanceof HTMLTextAreaElement ||
+  element instanceof HTMLSelectElement ||
+  (element instanceof HTMLInputElement &&
+    !['checkbox', 'radio', 'button'].includes(element.type)) ||
+  element.isContentEditable
+
+// セル内の要素に移動している間のキー操作。Tab キーでセル内の要素を順に移動し、Escape キーでセルに戻る
+const handleKeyDownInCell = (e: KeyboardEvent, cell: HTMLTableCellElement, target: HTMLElement) => {
+  if (e.key === 'Escape' || e.key === 'Esc') {
+    e.preventDefault()
+    cell.focus()
+    return
+  }
+  if (e.key !== 'Tab') {
+    return
+  }
+  const focusables = getVisibleInnerFocusables(cell)
+  const index = focusables.findIndex((element) => element.contains(target))
+  if (focusables.length === 0 || index < 0) {
+    return
+  }
+  e.preventDefault()
+  const nextIndex = (index + (e.shiftKey ? -1 : 1) + focusables.length) % focusables.length
+  focusables[nextIndex].focus()
+}
+
+/**
+ * テーブルをキーボードでセル間を移動できるグリッドにする
+ * 返り値のハンドラをテーブルの onKeyDown に設定する
+ */
+export function useGridNavigation(tableRef: RefObject<HTMLTableElement>, enabled: boolean) {
+  const activePosition = useRef<CellPosition>({ row: 0, column: 0 })
+
+  useEffect(() => {
+    const table = tableRef.current
+    if (!enabled || !table) {
+      return
+    }
+
+    // Tab キーでフォーカスできるセルと、そのセルでフォーカスする要素
+    let activeCell: HTMLTableCellElement | null = null
+    let activeTarget: HTMLElement | null = null
+
+    // アクティブなセルだけを Tab キーでフォーカスできるようにする
+    const updateActiveCell = () => {
+      const cells = getCells(table)
+      if (cells.length === 0) {
+        activeCell = null
+        activeTarget = null
+        return
+      }
+      const row = Math.min(activePosition.current.row, cells.length - 1)
+      const column = Math.min(activePosition.current.column, cells[row].length - 1)
+      activePosition.current = { row, column }
+
+      const cell = cells[row][column]
+      const target = getFocusTarget(cell)
+      if (activeTarget && activeTarget !== target) {
+        setManagedTabIndex(activeTarget, -1)
+      }
+      setManagedTabIndex(target, 0)
+      activeCell = cell
+      activeTarget = target
+    }
+
+    const handleFocusIn = (e: FocusEvent) => {
+      const target = e.target as HTMLElement
+      if (activeCell && activeCell.contains(target)) {
+        return
+      }
+      const position = findPosition(getCells(table), target)
+      if (position) {
+        activePosition.current = position
+        updateActiveCell()
+      }
+    }
+
+    removeFromTabOrder(table)
+    updateActiveCell()
+    // 行の追加や EditableTd の切り替えなどで追加された要素にだけ tabindex を設定する
+    // アクティブなセルが取り除かれたり、その内容が変わったりした場合は、フォーカスする要素を求め直す
+    const observer = new MutationObserver((records) => {
+      records.forEach(({ addedNodes }) =>
+        addedNodes.forEach((node) => {
+          if (node instanceof HTMLElement) {
+            removeFromTabOrder(node)
+          }
+        }),
+      )
+      if (
+        !activeCell ||
+        !activeCell.isConnected ||
+        records.some(({ target }) => activeCell?.contains(target))
+      ) {
+        updateActiveCell()
+      }
+    })
+    observer.observe(table, { childList: true, subtree: true })
+    table.addEventListener('focusin', handleFocusIn)
+
+    return () => {
+      observer.disconnect()
+      table.removeEventListener('focusin', handleFocusIn)
+      restoreTabOrder(table)
+    }
+  }, [enabled, tableRef])
+
+  // 列幅を変更するハンドルなど、矢印キーを自ら扱う要素が伝播を止められるよう、React のイベントで処理する
+  return useCallback(
+    (e: KeyboardEvent<HTMLTableElement>) => {
+      const table = tableRef.current
+      const target = e.target as HTMLElement
+      if (!enabled || !table || e.defaultPrevented || e.altKey || e.metaKey) {
+        return
+      }
+      const cells = getCells(table)
+      const current = findPosition(cells, target)
+      if (!current) {
+        return
+      }
+
+      const cell = cells[current.row][current.column]
+      if (target !== cell && getFocusTarget(cell) === cell) {
+        handleKeyDownInCell(e, cell, target)
+        return
+      }
+      if (target === cell && (e.key === 'Enter' || e.key === 'F2')) {
+        const focusables = getVisibleInnerFocusables(cell)
+        if (focusables.length > 0) {
+          e.preventDefault()
+          focusables[0].focus()
+        }
+        return
+      }
+      if (isTextEntry(target)) {
+        return
+      }
+
+      const next = getNextCellPosition(
+        e.key,
+        e.ctrlKey,
+        current,
+        cells.map((row) => row.length),
+      )
+      if (!next) {
+        return
+      }
+      e.preventDefault()
+      getFocusTarget(cells[next.row][next.column]).focus()
+    },
+    [enabled, tableRef],
+  )
+}
@@ -0,0 +1,130 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+
+import { getRowOffsets, getVisibleRange } from '../../libs/virtualization'
+
+export const SPACER_ROW_ATTRIBUTE = 'data-virtualized-spacer'
+
+function getScrollParent(element: HTMLElement | null): HTMLElement | null {
+  let current = element?.parentElement ?? null
+  while (current) {
+    const { overflowY } = getComputedStyle(current)
+    if (overflowY === 'auto' || overflowY === 'scroll' || overflowY === 'overlay') {
+      return current
+    }
+    current = current.parentElement
+  }
+  return null
+}
+
+export function useVirtualRows({
+  items,
+  estimatedRowHeight,
+  overscan,
+  bodyRef,
+  scrollElementRef,
+}: {
+  items: unknown[]
+  estimatedRowHeight: number
+  overscan: number
+  bodyRef: RefObject<HTMLTableSectionElement>
+  scrollElementRef?: RefObject<HTMLElement>
+}) {
+  // 計測済みの行の高さ。再描画のたびに計測し、変化があった場合のみ measuredVersion を更新する
+  const measuredHeights = useRef(new Map<number, number>())
+  const [measuredVersion, setMeasuredVersion] = useState(0)
+  const measuredItems = useRef(items)
+  if (measuredItems.current !== items) {
+    // 行のデータが変わった場合は計測結果を破棄する
+    measuredHeights.current.clear()
+    measuredItems.current = items
+  }
+  const rowCount = items.length
+  const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, overscan * 2 + 1) })
+
+  const offsets = useMemo(
+    () => getRowOffsets(rowCount, measuredHeights.current, estimatedRowHeight),
+    // 計測結果は ref で保持しているため、measuredVersion の更新時に offsets を再計算する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [estimatedRowHeight, items, measuredVersion],
+  )
+  const offsetsRef = useRef(offsets)
+  offsetsRef.current = offsets
+
+  const updateRange = useCallback(() => {
+    const body = bodyRef.current
+    if (!body) {
+      return
+    }
+    const scrollElement = scrollElementRef?.current ?? getScrollParent(body)
+    const bodyTop = body.getBoundingClientRect().top
+    const viewport = scrollElement
+      ? scrollElement.getBoundingClientRect()
+      : { top: 0, height: window.innerHeight }
+    const next = getVisibleRange({
+      offsets: offsetsRef.current,
+      viewportTop: viewport.top - bodyTop,
+      viewportHeight: viewport.height,
+      overscan,
+    })
+    setRange((current) =>
+      current.start === next.start && current.end === next.end ? current : next,
+    )
+  }, [bodyRef, overscan, scrollElementRef])
+
+  useEffect(() => {
+    const scrollElement = scrollElementRef?.current ?? getScrollParent(bodyRef.current)
+    const target = scrollElement ?? window
+    updateRange()
+    target.addEventListener('scroll', updateRange, { passive: true })
+    window.addEventListener('resize', updateRange)
+    return () => {
+      target.removeEventListener('scroll', updateRange)
+      window.removeEventListener('resize', updateRange)
+    }
+  }, [bodyRef, scrollElementRef, updateRange])
+
+  useEffect(() => {
+    // 行数や計測結果が変わった場合は表示範囲を再計算する
+    updateRange()
+  }, [offsets, updateRange])
+
+  useLayoutEffect(() => {
+    // 描画された行の高さを計測する
+    const body = bodyRef.current
+    if (!body) {
+      return
+    }
+    const rows = Array.from(body.rows).filter((row) => !row.hasAttribute(SPACER_ROW_ATTRIBUTE))
+    let changed = false
+    rows.forEach((row, i) => {
+      const index = range.start + i
+      const height = row.getBoundingClientRect().height
+      const current = measuredHeights.current.get(index)
+      if (height > 0 && (current === undefined || Math.abs(current - height) > 0.5)) {
+        measuredHeights.current.set(index, height)
+        changed = true
+      }
+    })
+    if (changed) {
+      setMeasuredVersion((current) => current + 1)
+    }
+  }, [bodyRef, items, range])
+
+  const start = Math.min(range.start, rowCount)
+  const end = Math.min(range.end, rowCount)
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[rowCount] - offsets[end],
+  }
+}
@@ -62,8 +62,18 @@ export {
   Body,
   Th,
   Td,
+  EditableTd,
   BulkActionRow,
   EmptyTableBody,
+  ExpandableRow,
+  GroupHeaderRow,
+  TableScroller,
+  DataTable,
+  VirtualizedTableBody,
+  TableExportButton,
+  ColumnVisibilityPicker,
+  serializeTable,
+  encodeExportText,
 } from './components/Table'
 export {
   AppNavi,
@@ -89,8 +99,8 @@ export { RightFixedNote } from './components/RightFixedNote'
 export { Tooltip } from './components/Tooltip'
 export { BottomFixedArea } from './components/BottomFixedArea'
 export { MessageScreen } from './components/MessageScreen'
-export { Calendar } from './components/Calendar'
-export { DatePicker } from './components/DatePicker'
+export { Calendar, RangeCalendar, getJapaneseHolidayName } from './components/Calendar'
+export { DatePicker, DateRangePicker, DateTimePicker, TimePicker } from './components/DatePicker'
 export { SegmentedControl, SegmentedControlOption } from './components/SegmentedControl'
 export { FormGroup } from './components/FormGroup'
 export {
@@ -98,7 +108,7 @@ export {
   BackgroundJobsList,
   BackgroundJobProps,
 } from './components/BackgroundJobsPanel'
-export { MultiComboBox, SingleComboBox } from './components/ComboBox'
+export { MultiComboBox, SingleComboBox, japaneseMatcher } from './components/ComboBox'
 export { SideNav } from './components/SideNav'
 export { CompactInformationPanel } from './components/CompactInformationPanel'
 export { Text } from './components/Text'
@@ -0,0 +1,37 @@
+import { formatYear, formatYearMonth, getJapaneseEraYear } from './japaneseEra'
+
+describe('japaneseEra', () => {
+  describe('getJapaneseEraYear', () => {
+    it('returns the era and year of the date', () => {
+      expect(getJapaneseEraYear(new Date(2024, 4, 1))).toBe('令和6年')
+      expect(getJapaneseEraYear(new Date(2019, 3, 30))).toBe('平成31年')
+      expect(getJapaneseEraYear(new Date(2019, 4, 1))).toBe('令和元年')
+      expect(getJapaneseEraYear(new Date(1989, 0, 7))).toBe('昭和64年')
+      expect(getJapaneseEraYear(new Date(1989, 0, 8))).toBe('平成元年')
+    })
+  })
+
+  describe('formatYear', () => {
+    it('returns the gregorian year', () => {
+      expect(formatYear(2019, 'gregorian')).toBe('2019年')
+    })
+
+    it('returns the japanese era year', () => {
+      expect(formatYear(2024, 'japanese')).toBe('令和6年')
+      expect(formatYear(2019, 'japanese')).toBe('平成31年/令和元年')
+      expect(formatYear(1989, 'japanese')).toBe('昭和64年/平成元年')
+    })
+  })
+
+  describe('formatYearMonth', () => {
+    it('returns the gregorian year and month', () => {
+      expect(formatYearMonth(new Date(2019, 4, 1), 'gregorian')).toBe('2019年5月')
+    })
+
+    it('returns the japanese era year and month', () => {
+      expect(formatYearMonth(new Date(2019, 3, 1), 'japanese')).toBe('平成31年4月')
+      expect(formatYearMonth(new Date(2019, 4, 1), 'japanese')).toBe('令和元年5月')
+      expect(formatYearMonth(new Date(1989, 0, 1), 'japanese')).toBe('昭和64年/平成元年1月')
+    })
+  })
+})
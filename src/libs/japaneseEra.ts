@@ -0,0 +1,46 @@
+import { dateToWareki } from '@smarthr/wareki'
+
+/** 年の表記。`japanese` の場合は「令和6年」のように和暦で表記する */
+export type CalendarEra = 'gregorian' | 'japanese'
+
+// 「令和元年5月1日」から「令和元年」を取り出す
+const ERA_YEAR_PATTERN = /^\D+(?:\d+|元)年/
+
+/** 和暦の元号と年を「令和元年」のように返す。和暦で表せない日付の場合は null を返す */
+export function getJapaneseEraYear(date: Date): string | null {
+  const { isValid, result } = dateToWareki(date)
+  const matched = isValid ? result.match(ERA_YEAR_PATTERN) : null
+  return matched ? matched[0] : null
+}
+
+// 期間の初日と最終日で元号が異なる場合は「平成31年/令和元年」のように併記する
+const formatEraYearOfPeriod = (first: Date, last: Date, gregorianYear: number) => {
+  const eraYears = [getJapaneseEraYear(first), getJapaneseEraYear(last)]
+  if (eraYears.some((eraYear) => eraYear === null)) {
+    return `${gregorianYear}年`
+  }
+  return eraYears[0] === eraYears[1] ? `${eraYears[0]}` : eraYears.join('/')
+}
+
+/** 年を「2019年」または「平成31年/令和元年」のように表記する */
+export function formatYear(year: number, calendarEra: CalendarEra) {
+  if (calendarEra === 'gregorian') {
+    return `${year}年`
+  }
+  return formatEraYearOfPeriod(new Date(year, 0, 1), new Date(year, 11, 31), year)
+}
+
+/** 年月を「2019年5月」または「令和元年5月」のように表記する */
+export function formatYearMonth(date: Date, calendarEra: CalendarEra) {
+  const year = date.getFullYear()
+  const month = date.getMonth()
+  if (calendarEra === 'gregorian') {
+    return `${year}年${month + 1}月`
+  }
+  const eraYear = formatEraYearOfPeriod(
+    new Date(year, month, 1),
+    new Date(year, month + 1, 0),
+    year,
+  )
+  return `${eraYear}${month + 1}月`
+}
@@ -0,0 +1,73 @@
+// 文字コード → Shift_JIS のバイト列の対応表
+// 変換表を同梱しないよう、TextDecoder で Shift_JIS の全ての 2 バイト文字をデコードして逆引きの表を作る
+let encodingTable: Map<number, number[]> | null = null
+
+// Encoding Standard に従い、IBM 拡張文字と重複する NEC 選定 IBM 拡張文字（0xED40〜0xEEFC）は逆引きに使わない
+const isExcludedPointer = (pointer: number) => pointer >= 8272 && pointer <= 8835
+
+function getEncodingTable() {
+  if (encodingTable) {
+    return encodingTable
+  }
+  const decoder = new TextDecoder('shift_jis')
+  const table = new Map<number, number[]>()
+  // 半角カナ
+  for (let byte = 0xa1; byte <= 0xdf; byte++) {
+    table.set(0xff61 + byte - 0xa1, [byte])
+  }
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (lead >= 0xa0 && lead <= 0xdf) {
+      continue
+    }
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) {
+        continue
+      }
+      const pointer =
+        (lead - (lead < 0xa0 ? 0x81 : 0xc1)) * 188 + trail - (trail < 0x7f ? 0x40 : 0x41)
+      if (isExcludedPointer(pointer)) {
+        continue
+      }
+      // 割り当てのないバイト列は U+FFFD にデコードされる
+      const chars = Array.from(decoder.decode(new Uint8Array([lead, trail])))
+      const codePoint = chars[0].codePointAt(0) as number
+      if (chars.length === 1 && codePoint !== 0xfffd && !table.has(codePoint)) {
+        table.set(codePoint, [lead, trail])
+      }
+    }
+  }
+  // Encoding Standard の Shift_JIS エンコーダーと同じく、一部の文字は見た目の近い文字として変換する
+  table.set(0xa5, [0x5c]) // ¥
+  table.set(0x203e, [0x7e]) // ‾
+  const fullWidthHyphenMinus = table.get(0xff0d)
+  if (fullWidthHyphenMinus) {
+    table.set(0x2212, fullWidthHyphenMinus) // −
+  }
+  encodingTable = table
+  return table
+}
+
+const REPLACEMENT_BYTE = 0x3f // '?'
+
+/**
+ * 文字列を Shift_JIS のバイト列に変換する
+ * Shift_JIS で表現できない文字は `?` に置き換える
+ */
+export function encodeShiftJis(text: string) {
+  const table = getEncodingTable()
+  const bytes: number[] = []
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number
+    if (codePoint < 0x80) {
+      bytes.push(codePoint)
+      continue
+    }
+    const encoded = table.get(codePoint)
+    if (encoded) {
+      bytes.push(...encoded)
+    } else {
+      bytes.push(REPLACEMENT_BYTE)
+    }
+  }
+  return new Uint8Array(bytes)
+}
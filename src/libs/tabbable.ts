@@ -14,9 +14,12 @@ const candidateSelector = candidateSelectors.join(',')
 
 type Option = {
   shouldIgnoreVisibility: boolean
+  // tabindex が負の値の要素も含める。ロービングタブインデックスで一時的に除外した要素を探す時に使う
+  shouldIncludeNegativeTabIndex: boolean
 }
 const defaultOption: Option = {
   shouldIgnoreVisibility: false,
+  shouldIncludeNegativeTabIndex: false,
 }
 
 export function tabbable(el: HTMLElement, option?: Partial<Option>) {
@@ -25,7 +28,7 @@ export function tabbable(el: HTMLElement, option?: Partial<Option>) {
     ...option,
   }
   const candidates = Array.from(el.querySelectorAll<HTMLElement>(candidateSelector)).filter(
-    (element) => element.tabIndex >= 0,
+    (element) => mergedOption.shouldIncludeNegativeTabIndex || element.tabIndex >= 0,
   )
   if (mergedOption.shouldIgnoreVisibility) {
     return candidates
@@ -0,0 +1,57 @@
+import { getRowOffsets, getVisibleRange } from './virtualization'
+
+describe('virtualization', () => {
+  describe('getRowOffsets', () => {
+    it('returns the top positions of the rows using the estimated height', () => {
+      expect(getRowOffsets(3, new Map(), 40)).toEqual([0, 40, 80, 120])
+    })
+
+    it('uses the measured heights if exist', () => {
+      expect(getRowOffsets(3, new Map([[1, 100]]), 40)).toEqual([0, 40, 140, 180])
+    })
+
+    it('returns only the start position when there are no rows', () => {
+      expect(getRowOffsets(0, new Map(), 40)).toEqual([0])
+    })
+  })
+
+  describe('getVisibleRange', () => {
+    const offsets = getRowOffsets(100, new Map(), 40)
+
+    it('returns the range of the rows inside the viewport', () => {
+      expect(
+        getVisibleRange({ offsets, viewportTop: 0, viewportHeight: 200, overscan: 0 }),
+      ).toEqual({ start: 0, end: 6 })
+      expect(
+        getVisibleRange({ offsets, viewportTop: 410, viewportHeight: 200, overscan: 0 }),
+      ).toEqual({ start: 10, end: 16 })
+    })
+
+    it('includes the overscan rows', () => {
+      expect(
+        getVisibleRange({ offsets, viewportTop: 410, viewportHeight: 200, overscan: 3 }),
+      ).toEqual({ start: 7, end: 19 })
+    })
+
+    it('does not exceed the number of rows', () => {
+      expect(
+        getVisibleRange({ offsets, viewportTop: 3900, viewportHeight: 400, overscan: 5 }),
+      ).toEqual({ start: 92, end: 100 })
+    })
+
+    it('handles the viewport above the body', () => {
+      expect(
+        getVisibleRange({ offsets, viewportTop: -100, viewportHeight: 200, overscan: 0 }),
+      ).toEqual({ start: 0, end: 3 })
+      expect(
+        getVisibleRange({ offsets, viewportTop: -300, viewportHeight: 200, overscan: 0 }),
+      ).toEqual({ start: 0, end: 1 })
+    })
+
+    it('returns an empty range when there are no rows', () => {
+      expect(
+        getVisibleRange({ offsets: [0], viewportTop: 0, viewportHeight: 200, overscan: 5 }),
+      ).toEqual({ start: 0, end: 0 })
+    })
+  })
+})
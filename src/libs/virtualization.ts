@@ -0,0 +1,51 @@
+export function getRowOffsets(
+  rowCount: number,
+  measuredHeights: Map<number, number>,
+  estimatedRowHeight: number,
+) {
+  // offsets[i] は i 番目の行の上端の位置。offsets[rowCount] は全体の高さになる
+  const offsets = new Array<number>(rowCount + 1)
+  offsets[0] = 0
+  for (let i = 0; i < rowCount; i++) {
+    offsets[i + 1] = offsets[i] + (measuredHeights.get(i) ?? estimatedRowHeight)
+  }
+  return offsets
+}
+
+function findRowIndex(offsets: number[], position: number) {
+  // position を含む行のインデックスを二分探索で求める
+  let low = 0
+  let high = offsets.length - 2
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (offsets[middle] <= position) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return Math.max(low, 0)
+}
+
+export function getVisibleRange({
+  offsets,
+  viewportTop,
+  viewportHeight,
+  overscan,
+}: {
+  offsets: number[]
+  viewportTop: number
+  viewportHeight: number
+  overscan: number
+}) {
+  const rowCount = offsets.length - 1
+  if (rowCount <= 0) {
+    return { start: 0, end: 0 }
+  }
+  const first = findRowIndex(offsets, Math.max(viewportTop, 0))
+  const last = findRowIndex(offsets, Math.max(viewportTop + viewportHeight, 0))
+  return {
+    start: Math.max(first - overscan, 0),
+    end: Math.min(last + overscan + 1, rowCount),
+  }
+}